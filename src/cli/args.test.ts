@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_NETWORK, USER_ADDRESS } from "../constants";
+import { TEST_DRIFT_ACCOUNT, TEST_OWNER } from "../testing/fixtures";
+import { parseCliArgs } from "./args";
+
+describe("parseCliArgs", () => {
+  test("defaults to positions of USER_ADDRESS as a table", () => {
+    const options = parseCliArgs([]);
+    expect(options).toMatchObject({
+      command: "positions",
+      wallets: [USER_ADDRESS],
+      format: "table",
+      network: DEFAULT_NETWORK,
+      historyGroup: "portfolio",
+      help: false,
+    });
+    expect(options.protocols).toBeUndefined();
+    expect(options.subAccountIds).toBeUndefined();
+  });
+
+  test("reads the command, wallets and options", () => {
+    const options = parseCliArgs([
+      "summary",
+      TEST_OWNER,
+      TEST_DRIFT_ACCOUNT,
+      "-p",
+      "drift, jupiter",
+      "--rpc",
+      "https://rpc-1.example.com,https://rpc-2.example.com",
+      "-n",
+      "devnet",
+      "-f",
+      "csv",
+      "--sub-account",
+      "0,2",
+      "--since",
+      "2026-01-01",
+      "--symbol",
+      "SOL",
+    ]);
+
+    expect(options).toMatchObject({
+      command: "summary",
+      wallets: [TEST_OWNER, TEST_DRIFT_ACCOUNT],
+      protocols: ["drift", "jupiter"],
+      rpcUrl: "https://rpc-1.example.com,https://rpc-2.example.com",
+      network: "devnet",
+      format: "csv",
+      subAccountIds: [0, 2],
+      since: new Date("2026-01-01"),
+      symbol: "SOL",
+    });
+  });
+
+  test("treats a first positional that is not a command as a wallet", () => {
+    expect(parseCliArgs([TEST_OWNER])).toMatchObject({ command: "positions", wallets: [TEST_OWNER] });
+  });
+
+  test("parses scenario shocks as lists and ranges", () => {
+    const { shocks } = parseCliArgs(["scenario", "--shock", "SOL=-20,-10", "--shock", "BTC=-1:1:0.5"]);
+    expect(shocks).toEqual({ SOL: [-20, -10], BTC: [-1, -0.5, 0, 0.5, 1] });
+  });
+
+  test("rejects invalid values", () => {
+    expect(() => parseCliArgs(["positions", "not-a-wallet"])).toThrow("Invalid wallet address: not-a-wallet");
+    expect(() => parseCliArgs(["-f", "xml"])).toThrow("Invalid output format: xml");
+    expect(() => parseCliArgs(["--rpc", "not a url"])).toThrow("Invalid RPC URL: not a url");
+    expect(() => parseCliArgs(["-n", "testnet"])).toThrow("Invalid network: testnet");
+    expect(() => parseCliArgs(["--port", "70000"])).toThrow("Invalid port: 70000");
+    expect(() => parseCliArgs(["--interval", "0"])).toThrow("Invalid interval: 0");
+    expect(() => parseCliArgs(["--since", "yesterday"])).toThrow("Invalid --since date: yesterday");
+    expect(() => parseCliArgs(["--by", "wallet"])).toThrow("Invalid history series: wallet");
+    expect(() => parseCliArgs(["--sub-account", "0,-1"])).toThrow("Invalid sub-account ids: 0,-1");
+    expect(() => parseCliArgs(["--shock", "SOL=-100"])).toThrow("Invalid shock: SOL=-100");
+  });
+
+  test("rejects unknown options", () => {
+    expect(() => parseCliArgs(["--wallet", TEST_OWNER])).toThrow();
+  });
+});
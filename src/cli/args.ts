@@ -0,0 +1,285 @@
+import { parseArgs } from "node:util";
+import {
+  DEFAULT_NETWORK,
+  NETWORK_IDS,
+  type NetworkId,
+  parseNetworkId,
+  parseRpcUrls,
+  SNAPSHOT_DB_PATH,
+  USER_ADDRESS,
+} from "../constants";
+import { OUTPUT_FORMATS, type OutputFormat } from "../formatters";
+import type { ProtocolId } from "../types";
+import { isValidPublicKey, logger } from "../utils";
+
+/**
+ * Command-line argument parsing
+ *
+ * Usage: bun start [command] [wallet...] [options]
+ * The command defaults to `positions` and the wallet defaults to USER_ADDRESS
+ */
+
+export const CLI_COMMANDS = [
+  "positions",
+  "summary",
+  "portfolio",
+  "exposure",
+  "scenario",
+  "markets",
+  "funding",
+  "watch",
+  "serve",
+  "history",
+] as const;
+export type CliCommand = (typeof CLI_COMMANDS)[number];
+
+export const HISTORY_GROUPS = ["portfolio", "position"] as const;
+export type HistoryGroup = (typeof HISTORY_GROUPS)[number];
+
+export interface CliOptions {
+  command: CliCommand;
+  /** Wallet addresses (base58) */
+  wallets: string[];
+  /** Protocols to query (default: all registered) */
+  protocols?: ProtocolId[];
+  /** RPC URL overriding the network's endpoints */
+  rpcUrl?: string;
+  /** Network profile: endpoints, program ids, market tables and price sources */
+  network: NetworkId;
+  /** Drift sub-accounts to read (default: every existing sub-account) */
+  subAccountIds?: number[];
+  format: OutputFormat;
+  /** Price refresh interval for `watch` */
+  intervalSeconds?: number;
+  /** Alert configuration file checked on every `watch` update */
+  alertsPath?: string;
+  /** HTTP port for `serve` */
+  port?: number;
+  /** Snapshot database; fetches are saved to it when set */
+  dbPath?: string;
+  /** `history` time range */
+  since?: Date;
+  until?: Date;
+  /** `history` market symbol filter (e.g. SOL) */
+  symbol?: string;
+  /** `history` series: portfolio totals or individual positions */
+  historyGroup: HistoryGroup;
+  /** `scenario` price shocks in % per asset; every combination of the values is one scenario */
+  shocks?: Record<string, number[]>;
+  help: boolean;
+}
+
+export const USAGE = `Usage: bun start [command] [wallet...] [options]
+
+Commands:
+  positions   List open positions (default)
+  summary     Position count, notional and PnL per wallet and protocol
+  portfolio   Rollups by wallet, protocol and symbol across all wallets
+  exposure    Net and gross exposure per underlying asset across protocols, with hedges flagged
+  scenario    PnL, margin and liquidations under price shocks (requires --shock)
+  markets     List markets supported by each protocol
+  funding     Funding since open plus last and predicted hourly rates per position
+  watch       Stream position updates until interrupted (Ctrl+C)
+  serve       Start the HTTP API server
+  history     PnL time series from saved snapshots (requires --db)
+
+Options:
+  -p, --protocol <ids>     Comma-separated protocols to query (e.g. drift,jupiter)
+      --rpc <urls>         Solana RPC URL, or comma-separated URLs tried in order on failure
+  -n, --network <id>       ${NETWORK_IDS.join(" | ")} (default: ${DEFAULT_NETWORK})
+      --sub-account <ids>  Comma-separated Drift sub-account ids (default: every existing sub-account)
+  -l, --log-level <level>  ${logger.getLevels().join(" | ")}
+  -f, --format <format>    ${OUTPUT_FORMATS.join(" | ")} (default: table)
+      --interval <seconds> Price refresh interval for watch (default: 30)
+      --alerts <file>      Alert rules JSON checked on every watch update
+      --port <port>        HTTP port for serve (default: 3000)
+      --db <file>          Save every fetch to this SQLite database (default: SNAPSHOT_DB_PATH)
+      --since <date>       history: first snapshot time (ISO 8601)
+      --until <date>       history: last snapshot time (ISO 8601)
+      --symbol <symbol>    history: only positions in this market (e.g. SOL)
+      --by <series>        history: ${HISTORY_GROUPS.join(" | ")} (default: portfolio)
+      --shock <shock>      scenario: ASSET=% values as a list (SOL=-20,-10) or range (SOL=-30:30:10), repeatable
+  -h, --help               Show this help`;
+
+const isCliCommand = (value: string | undefined): value is CliCommand => CLI_COMMANDS.includes(value as CliCommand);
+
+const isOutputFormat = (value: string): value is OutputFormat => OUTPUT_FORMATS.includes(value as OutputFormat);
+
+/**
+ * Parse command-line arguments
+ * The log level is applied immediately via LOG_LEVEL so that it also covers later imports
+ * @throws Error on unknown options or invalid values
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      protocol: { type: "string", short: "p" },
+      rpc: { type: "string" },
+      network: { type: "string", short: "n" },
+      "sub-account": { type: "string" },
+      "log-level": { type: "string", short: "l" },
+      format: { type: "string", short: "f", default: "table" },
+      interval: { type: "string" },
+      alerts: { type: "string" },
+      port: { type: "string" },
+      db: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      symbol: { type: "string" },
+      by: { type: "string", default: "portfolio" },
+      shock: { type: "string", multiple: true },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [first, ...rest] = positionals;
+  const command = isCliCommand(first) ? first : "positions";
+  const wallets = isCliCommand(first) ? rest : positionals;
+
+  applyLogLevel(values["log-level"]);
+
+  const format = values.format ?? "table";
+  if (!isOutputFormat(format)) {
+    throw new Error(`Invalid output format: ${format}`);
+  }
+
+  for (const wallet of wallets) {
+    if (!isValidPublicKey(wallet)) {
+      throw new Error(`Invalid wallet address: ${wallet}`);
+    }
+  }
+
+  const invalidRpcUrl = parseRpcUrls(values.rpc ?? "").find((url) => !URL.canParse(url));
+  if (invalidRpcUrl) {
+    throw new Error(`Invalid RPC URL: ${invalidRpcUrl}`);
+  }
+
+  return {
+    command,
+    wallets: wallets.length > 0 ? wallets : [USER_ADDRESS],
+    protocols: values.protocol
+      ?.split(",")
+      .map((id) => id.trim())
+      .filter(Boolean),
+    rpcUrl: values.rpc,
+    network: values.network ? parseNetworkId(values.network) : DEFAULT_NETWORK,
+    subAccountIds: parseSubAccountIds(values["sub-account"]),
+    format,
+    intervalSeconds: parseInterval(values.interval),
+    alertsPath: values.alerts,
+    port: parsePort(values.port),
+    dbPath: values.db ?? SNAPSHOT_DB_PATH,
+    since: parseDate(values.since, "--since"),
+    until: parseDate(values.until, "--until"),
+    symbol: values.symbol?.trim() || undefined,
+    historyGroup: parseHistoryGroup(values.by ?? "portfolio"),
+    shocks: parseShocks(values.shock),
+    help: values.help ?? false,
+  };
+}
+
+function applyLogLevel(value: string | undefined): void {
+  const logLevel = value?.toUpperCase();
+  if (!logLevel) {
+    return;
+  }
+
+  if (!logger.getLevels().map(String).includes(logLevel)) {
+    throw new Error(`Invalid log level: ${value}`);
+  }
+  process.env.LOG_LEVEL = logLevel;
+}
+
+function parseInterval(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!(seconds > 0)) {
+    throw new Error(`Invalid interval: ${value}`);
+  }
+  return seconds;
+}
+
+function parsePort(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid port: ${value}`);
+  }
+  return port;
+}
+
+function parseSubAccountIds(value: string | undefined): number[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const ids = value.split(",").map((id) => Number(id.trim()));
+  if (ids.some((id) => !Number.isInteger(id) || id < 0)) {
+    throw new Error(`Invalid sub-account ids: ${value}`);
+  }
+  return ids;
+}
+
+function parseDate(value: string | undefined, option: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${option} date: ${value}`);
+  }
+  return date;
+}
+
+function parseHistoryGroup(value: string): HistoryGroup {
+  if (!HISTORY_GROUPS.includes(value as HistoryGroup)) {
+    throw new Error(`Invalid history series: ${value}`);
+  }
+  return value as HistoryGroup;
+}
+
+/**
+ * Parse `--shock ASSET=values` options, where values is a comma-separated list of percentages or a from:to:step range
+ */
+function parseShocks(values: string[] | undefined): Record<string, number[]> | undefined {
+  if (!values || values.length === 0) {
+    return undefined;
+  }
+
+  const shocks: Record<string, number[]> = {};
+  for (const value of values) {
+    const [asset, spec] = value.split("=", 2).map((part) => part.trim());
+    const percents = asset && spec ? parseShockValues(spec) : undefined;
+    if (!asset || !percents) {
+      throw new Error(`Invalid shock: ${value}`);
+    }
+    shocks[asset] = percents;
+  }
+  return shocks;
+}
+
+function parseShockValues(spec: string): number[] | undefined {
+  const range = spec.split(":").map(Number);
+  let percents = spec.split(",").map(Number);
+  if (range.length === 3) {
+    const [from = 0, to = 0, step = 0] = range;
+    if (!(step > 0) || !(to >= from)) {
+      return undefined;
+    }
+    // Count the steps up front so fractional steps (e.g. 0.1) neither drift nor drop the last value
+    const count = Math.floor((to - from) / step + 1e-9) + 1;
+    percents = Array.from({ length: count }, (_, index) => Number((from + index * step).toFixed(10)));
+  }
+
+  // A price can fall by less than 100%
+  return percents.every((percent) => Number.isFinite(percent) && percent > -100) ? percents : undefined;
+}
@@ -0,0 +1,25 @@
+import { formatExposureReport } from "../../formatters";
+import { buildExposureReport, buildPortfolio, fetchWalletResults } from "../../lib";
+import { logger } from "../../utils";
+import type { CliOptions } from "../args";
+import { getExitCode, getFetchOptions, recordSnapshot, writeOutput } from "../fetch";
+
+/**
+ * `exposure` command: net and gross exposure per underlying asset across protocols and wallets, with hedges flagged
+ */
+export async function runExposureCommand(options: CliOptions): Promise<number> {
+  const walletResults = await fetchWalletResults(options.wallets, options.protocols, getFetchOptions(options));
+  recordSnapshot(options.dbPath, walletResults);
+  const { positions, spotBalances } = buildPortfolio(walletResults);
+  const report = buildExposureReport(positions, spotBalances);
+
+  const hedged = report.assets.filter((asset) => asset.hedged).map((asset) => asset.assetId);
+  logger.info(
+    `⚖️ Exposure across ${report.assets.length} assets: gross $${report.totals.grossNotionalUsd.toFixed(2)}, ` +
+      `net $${report.totals.netNotionalUsd.toFixed(2)}, leverage ${report.totals.effectiveLeverage.toFixed(2)}x` +
+      (hedged.length > 0 ? `, hedged: ${hedged.join(", ")}` : ""),
+  );
+
+  writeOutput(formatExposureReport(options.format, report));
+  return getExitCode(walletResults);
+}
@@ -0,0 +1,54 @@
+import { type Column, formatRows } from "../../formatters";
+import { buildPortfolio, fetchWalletResults, getAdapters } from "../../lib";
+import type { Position, PositionFunding } from "../../types";
+import type { Decimal } from "../../utils";
+import type { CliOptions } from "../args";
+import { getExitCode, getFetchOptions, writeOutput } from "../fetch";
+
+type FundingRow = Pick<Position, "owner" | "protocol" | "symbol" | "subAccountId" | "direction" | "sizeUsd"> &
+  PositionFunding & { totalPnlWithFees: Decimal };
+
+const FUNDING_COLUMNS: Column<FundingRow>[] = [
+  { header: "owner", value: (row) => row.owner },
+  { header: "protocol", value: (row) => row.protocol },
+  { header: "symbol", value: (row) => row.symbol },
+  { header: "subAccount", value: (row) => row.subAccountId },
+  { header: "direction", value: (row) => row.direction },
+  { header: "sizeUsd", value: (row) => row.sizeUsd, decimals: 2 },
+  { header: "unsettledFunding", value: (row) => row.unsettledPnl, decimals: 4 },
+  { header: "settledFundingAndFees", value: (row) => row.settledPnlWithFees, decimals: 4 },
+  { header: "totalFundingAndFees", value: (row) => row.totalPnlWithFees, decimals: 4 },
+  { header: "lastRatePct", value: (row) => row.lastHourlyRatePercent, decimals: 6 },
+  { header: "predictedRatePct", value: (row) => row.predictedHourlyRatePercent, decimals: 6 },
+];
+
+/**
+ * `funding` command: funding paid or received per position since it opened, with current and predicted hourly rates
+ * Only protocols with funding are queried unless --protocol is given
+ */
+export async function runFundingCommand(options: CliOptions): Promise<number> {
+  const protocols =
+    options.protocols ?? getAdapters().flatMap((adapter) => (adapter.capabilities.funding ? [adapter.id] : []));
+  const walletResults = await fetchWalletResults(options.wallets, protocols, getFetchOptions(options));
+  const { positions } = buildPortfolio(walletResults);
+
+  const rows = positions.flatMap(({ funding, ...position }): FundingRow[] =>
+    funding
+      ? [
+          {
+            owner: position.owner,
+            protocol: position.protocol,
+            symbol: position.symbol,
+            subAccountId: position.subAccountId,
+            direction: position.direction,
+            sizeUsd: position.sizeUsd,
+            ...funding,
+            totalPnlWithFees: funding.unsettledPnl.add(funding.settledPnlWithFees),
+          },
+        ]
+      : [],
+  );
+
+  writeOutput(formatRows(options.format, FUNDING_COLUMNS, rows));
+  return getExitCode(walletResults);
+}
@@ -0,0 +1,60 @@
+import { type Column, formatRows } from "../../formatters";
+import { SnapshotStore } from "../../lib";
+import type { PortfolioPnlPoint, PositionPnlPoint, SnapshotQuery } from "../../types";
+import { logger } from "../../utils";
+import type { CliOptions } from "../args";
+import { writeOutput } from "../fetch";
+
+const PORTFOLIO_HISTORY_COLUMNS: Column<PortfolioPnlPoint>[] = [
+  { header: "takenAt", value: (row) => row.takenAt },
+  { header: "positions", value: (row) => row.positionCount },
+  { header: "notionalUsd", value: (row) => row.notionalUsd, decimals: 2 },
+  { header: "pnl", value: (row) => row.pnl, decimals: 2 },
+  { header: "failures", value: (row) => row.failureCount },
+];
+
+const POSITION_HISTORY_COLUMNS: Column<PositionPnlPoint>[] = [
+  { header: "takenAt", value: (row) => row.takenAt },
+  { header: "owner", value: (row) => row.owner },
+  { header: "protocol", value: (row) => row.protocol },
+  { header: "account", value: (row) => row.accountAddress },
+  { header: "symbol", value: (row) => row.symbol },
+  { header: "subAccount", value: (row) => row.subAccountId },
+  { header: "direction", value: (row) => row.direction },
+  { header: "sizeUsd", value: (row) => row.sizeUsd, decimals: 2 },
+  { header: "entryPrice", value: (row) => row.entryPrice, decimals: 4 },
+  { header: "markPrice", value: (row) => row.markPrice, decimals: 4 },
+  { header: "pnl", value: (row) => row.pnl, decimals: 2 },
+  { header: "leverage", value: (row) => row.leverage, decimals: 2 },
+];
+
+/**
+ * `history` command: PnL time series of the given wallets from saved snapshots
+ * --by portfolio prints one row per snapshot, --by position one row per position per snapshot
+ */
+export async function runHistoryCommand(options: CliOptions): Promise<number> {
+  if (!options.dbPath) {
+    logger.error("❌ history requires a snapshot database (--db or SNAPSHOT_DB_PATH)");
+    return 2;
+  }
+
+  const query: SnapshotQuery = {
+    owners: options.wallets,
+    protocols: options.protocols,
+    since: options.since,
+    until: options.until,
+    symbol: options.symbol,
+  };
+
+  const store = new SnapshotStore(options.dbPath);
+  try {
+    if (options.historyGroup === "position") {
+      writeOutput(formatRows(options.format, POSITION_HISTORY_COLUMNS, store.getPositionPnlHistory(query)));
+    } else {
+      writeOutput(formatRows(options.format, PORTFOLIO_HISTORY_COLUMNS, store.getPortfolioPnlHistory(query)));
+    }
+  } finally {
+    store.close();
+  }
+  return 0;
+}
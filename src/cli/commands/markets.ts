@@ -0,0 +1,30 @@
+import { type Column, formatRows } from "../../formatters";
+import { getAdapters } from "../../lib";
+import type { MarketInfo } from "../../types";
+import type { CliOptions } from "../args";
+import { writeOutput } from "../fetch";
+
+type MarketRow = MarketInfo & { protocol: string };
+
+const MARKET_COLUMNS: Column<MarketRow>[] = [
+  { header: "protocol", value: (row) => row.protocol },
+  { header: "symbol", value: (row) => row.symbol },
+  { header: "marketId", value: (row) => row.protocolMarketId },
+];
+
+/**
+ * `markets` command: list markets supported by each protocol
+ */
+export async function runMarketsCommand(options: CliOptions): Promise<number> {
+  const markets = await Promise.all(
+    getAdapters(options.protocols).map(async (adapter) =>
+      (await adapter.listMarkets({ rpcUrl: options.rpcUrl, network: options.network })).map((market) => ({
+        protocol: adapter.id,
+        ...market,
+      })),
+    ),
+  );
+
+  writeOutput(formatRows(options.format, MARKET_COLUMNS, markets.flat()));
+  return 0;
+}
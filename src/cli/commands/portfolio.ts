@@ -0,0 +1,22 @@
+import { formatPortfolio } from "../../formatters";
+import { buildPortfolio, fetchWalletResults } from "../../lib";
+import { logger } from "../../utils";
+import type { CliOptions } from "../args";
+import { getExitCode, getFetchOptions, recordSnapshot, writeOutput } from "../fetch";
+
+/**
+ * `portfolio` command: positions of every wallet rolled up by wallet, protocol and symbol
+ */
+export async function runPortfolioCommand(options: CliOptions): Promise<number> {
+  const walletResults = await fetchWalletResults(options.wallets, options.protocols, getFetchOptions(options));
+  recordSnapshot(options.dbPath, walletResults);
+  const portfolio = buildPortfolio(walletResults);
+
+  logger.info(
+    `📊 Portfolio of ${portfolio.owners.length} wallets: ${portfolio.totals.positionCount} positions, ` +
+      `${portfolio.failures.length} failures, ${portfolio.warnings.length} warnings`,
+  );
+
+  writeOutput(formatPortfolio(options.format, portfolio));
+  return getExitCode(walletResults);
+}
@@ -0,0 +1,22 @@
+import { formatPositionReport } from "../../formatters";
+import { buildPortfolio, fetchWalletResults } from "../../lib";
+import { logger } from "../../utils";
+import type { CliOptions } from "../args";
+import { getExitCode, getFetchOptions, recordSnapshot, writeOutput } from "../fetch";
+
+/**
+ * `positions` command: list open positions and spot balances of every wallet with portfolio totals
+ */
+export async function runPositionsCommand(options: CliOptions): Promise<number> {
+  const walletResults = await fetchWalletResults(options.wallets, options.protocols, getFetchOptions(options));
+  recordSnapshot(options.dbPath, walletResults);
+  const { positions, spotBalances, totals, failures, warnings } = buildPortfolio(walletResults);
+
+  logger.info(
+    `🎯 Found ${positions.length} open positions and ${spotBalances.length} spot balances, ` +
+      `Total Unrealized PnL: $${totals.pnl.toFixed(2)}`,
+  );
+
+  writeOutput(formatPositionReport(options.format, { positions, spotBalances, totals, failures, warnings }));
+  return getExitCode(walletResults);
+}
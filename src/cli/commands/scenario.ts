@@ -0,0 +1,42 @@
+import { formatScenarioReport } from "../../formatters";
+import { buildPortfolio, expandShockGrid, fetchWalletResults, runScenarios } from "../../lib";
+import type { PriceShocks } from "../../types";
+import { getErrorDetails, logger } from "../../utils";
+import type { CliOptions } from "../args";
+import { getExitCode, getFetchOptions, recordSnapshot, writeOutput } from "../fetch";
+
+/**
+ * `scenario` command: PnL, margin and liquidations of the whole portfolio under price shocks
+ * Every combination of the --shock values is one scenario, so `--shock SOL=-30:0:10 --shock BTC=-10,0` gives 8 scenarios
+ */
+export async function runScenarioCommand(options: CliOptions): Promise<number> {
+  if (!options.shocks) {
+    logger.error("❌ scenario requires price shocks (--shock, e.g. SOL=-20 or SOL=-30:30:10)");
+    return 2;
+  }
+
+  let shockSets: PriceShocks[];
+  try {
+    shockSets = expandShockGrid(options.shocks);
+  } catch (error) {
+    logger.error(`❌ ${getErrorDetails(error).message}`);
+    return 2;
+  }
+
+  const walletResults = await fetchWalletResults(options.wallets, options.protocols, getFetchOptions(options));
+  recordSnapshot(options.dbPath, walletResults);
+  const { positions, spotBalances } = buildPortfolio(walletResults);
+  const report = runScenarios(positions, spotBalances, shockSets);
+
+  const worst = report.scenarios.reduce<(typeof report.scenarios)[number] | undefined>(
+    (min, scenario) => (min?.pnlChange.lte(scenario.pnlChange) ? min : scenario),
+    undefined,
+  );
+  logger.info(
+    `🧪 ${report.scenarios.length} scenarios over ${positions.length} positions` +
+      (worst ? `, worst: ${worst.name} (PnL ${worst.pnlChange.toFixed(2)}, ${worst.liquidatedCount} liquidated)` : ""),
+  );
+
+  writeOutput(formatScenarioReport(options.format, report));
+  return getExitCode(walletResults);
+}
@@ -0,0 +1,22 @@
+import { startApiServer } from "../../server";
+import type { CliOptions } from "../args";
+
+/**
+ * `serve` command: run the HTTP API server until SIGINT / SIGTERM
+ */
+export async function runServeCommand(options: CliOptions): Promise<number> {
+  const server = startApiServer({
+    port: options.port,
+    rpcUrl: options.rpcUrl,
+    network: options.network,
+    subAccountIds: options.subAccountIds,
+  });
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+
+  await server.stop();
+  return 0;
+}
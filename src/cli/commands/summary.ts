@@ -0,0 +1,45 @@
+import { type Column, formatRows } from "../../formatters";
+import { fetchWalletResults } from "../../lib";
+import { calculatePortfolioTotals, type Decimal } from "../../utils";
+import type { CliOptions } from "../args";
+import { getExitCode, getFetchOptions, recordSnapshot, writeOutput } from "../fetch";
+
+/** Totals for one protocol of one wallet */
+interface ProtocolSummary {
+  owner: string;
+  protocol: string;
+  positionCount: number;
+  notionalUsd: Decimal;
+  pnl: Decimal;
+  netSpotUsd: Decimal;
+  accountEquity: Decimal;
+}
+
+const SUMMARY_COLUMNS: Column<ProtocolSummary>[] = [
+  { header: "owner", value: (row) => row.owner },
+  { header: "protocol", value: (row) => row.protocol },
+  { header: "positions", value: (row) => row.positionCount },
+  { header: "notionalUsd", value: (row) => row.notionalUsd, decimals: 2 },
+  { header: "pnl", value: (row) => row.pnl, decimals: 2 },
+  { header: "netSpotUsd", value: (row) => row.netSpotUsd, decimals: 2 },
+  { header: "accountEquity", value: (row) => row.accountEquity, decimals: 2 },
+];
+
+/**
+ * `summary` command: position count, notional, PnL, net spot value and account equity per wallet and protocol
+ * Failed protocols are omitted from the rows and reported in the logs
+ */
+export async function runSummaryCommand(options: CliOptions): Promise<number> {
+  const walletResults = await fetchWalletResults(options.wallets, options.protocols, getFetchOptions(options));
+  recordSnapshot(options.dbPath, walletResults);
+  const summaries = walletResults.flatMap(({ owner, results }) =>
+    results.flatMap((result): ProtocolSummary[] =>
+      result.status === "fulfilled"
+        ? [{ owner, protocol: result.adapterId, ...calculatePortfolioTotals(result.positions, result.spotBalances) }]
+        : [],
+    ),
+  );
+
+  writeOutput(formatRows(options.format, SUMMARY_COLUMNS, summaries));
+  return getExitCode(walletResults);
+}
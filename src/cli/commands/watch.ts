@@ -0,0 +1,67 @@
+import { formatPositionReport } from "../../formatters";
+import { AlertEngine, loadAlertConfig, PositionWatcher, SnapshotStore, sendAlerts } from "../../lib";
+import type { AlertConfig } from "../../types";
+import { calculatePortfolioTotals, getErrorDetails, logger } from "../../utils";
+import type { CliOptions } from "../args";
+import { writeOutput } from "../fetch";
+
+/**
+ * `watch` command: stream the position set of every wallet whenever it changes
+ * Runs until SIGINT / SIGTERM; ndjson is the most convenient format for piping updates
+ * With --alerts, every update is one alert evaluation cycle; with --db, every update is saved as a snapshot
+ */
+export async function runWatchCommand(options: CliOptions): Promise<number> {
+  let alertConfig: AlertConfig | undefined;
+  if (options.alertsPath) {
+    try {
+      alertConfig = await loadAlertConfig(options.alertsPath);
+    } catch (error) {
+      logger.error(`❌ ${getErrorDetails(error).message}`);
+      return 2;
+    }
+    logger.info(`🔔 Loaded ${alertConfig.rules.length} alert rule(s), ${alertConfig.webhooks.length} webhook(s)`);
+  }
+  const alertEngine = alertConfig && new AlertEngine(alertConfig);
+  const snapshotStore = options.dbPath ? new SnapshotStore(options.dbPath) : undefined;
+
+  const watcher = new PositionWatcher({
+    protocols: options.protocols,
+    rpcUrl: options.rpcUrl,
+    network: options.network,
+    subAccountIds: options.subAccountIds,
+    refreshIntervalMs: options.intervalSeconds === undefined ? undefined : options.intervalSeconds * 1000,
+    onUpdate: (positions, spotBalances) => {
+      const totals = calculatePortfolioTotals(positions, spotBalances);
+      logger.info(`🔄 ${positions.length} open positions, Total Unrealized PnL: $${totals.pnl.toFixed(2)}`);
+      writeOutput(
+        formatPositionReport(options.format, { positions, spotBalances, totals, failures: [], warnings: [] }),
+      );
+
+      try {
+        snapshotStore?.saveSnapshot(options.wallets, positions);
+      } catch (error) {
+        logger.error(`❌ Failed to save snapshot: ${getErrorDetails(error).message}`);
+      }
+
+      if (alertConfig && alertEngine) {
+        const alerts = alertEngine.evaluate(positions);
+        for (const alert of alerts) {
+          logger.warn(`🚨 ${alert.message}`);
+        }
+        void sendAlerts(alertConfig.webhooks, alerts);
+      }
+    },
+  });
+
+  const stopped = new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+
+  // A signal during startup must not wait for slow initial subscriptions
+  await Promise.race([watcher.start(options.wallets), stopped]);
+  await stopped;
+  await watcher.stop();
+  snapshotStore?.close();
+  return 0;
+}
@@ -0,0 +1,46 @@
+import { buildPortfolio, SnapshotStore, type WalletFetchResult } from "../lib";
+import type { FetchPositionsOptions } from "../types";
+import { getErrorDetails, logger } from "../utils";
+import type { CliOptions } from "./args";
+
+/**
+ * Adapter fetch options selected on the command line
+ */
+export function getFetchOptions(options: CliOptions): FetchPositionsOptions {
+  return { rpcUrl: options.rpcUrl, network: options.network, subAccountIds: options.subAccountIds };
+}
+
+/**
+ * Exit code for a fetch: 1 when every adapter failed for every wallet
+ */
+export function getExitCode(walletResults: WalletFetchResult[]): number {
+  const succeeded = walletResults.some(({ results }) => results.some((result) => result.status === "fulfilled"));
+  return walletResults.length > 0 && !succeeded ? 1 : 0;
+}
+
+/**
+ * Write command output to stdout (logs go to stderr)
+ */
+export function writeOutput(text: string): void {
+  process.stdout.write(text);
+}
+
+/**
+ * Save a fetch as a snapshot when a database is configured
+ * A storage failure is logged and does not fail the command
+ */
+export function recordSnapshot(dbPath: string | undefined, walletResults: WalletFetchResult[]): void {
+  if (!dbPath) return;
+
+  try {
+    const { owners, positions, failures } = buildPortfolio(walletResults);
+    const store = new SnapshotStore(dbPath);
+    try {
+      store.saveSnapshot(owners, positions, failures.length);
+    } finally {
+      store.close();
+    }
+  } catch (error) {
+    logger.error(`❌ Failed to save snapshot to ${dbPath}: ${getErrorDetails(error).message}`);
+  }
+}
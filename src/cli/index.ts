@@ -0,0 +1,51 @@
+import { getAdapters } from "../lib";
+import { getErrorDetails, logger } from "../utils";
+import { type CliCommand, type CliOptions, parseCliArgs, USAGE } from "./args";
+import { runExposureCommand } from "./commands/exposure";
+import { runFundingCommand } from "./commands/funding";
+import { runHistoryCommand } from "./commands/history";
+import { runMarketsCommand } from "./commands/markets";
+import { runPortfolioCommand } from "./commands/portfolio";
+import { runPositionsCommand } from "./commands/positions";
+import { runScenarioCommand } from "./commands/scenario";
+import { runServeCommand } from "./commands/serve";
+import { runSummaryCommand } from "./commands/summary";
+import { runWatchCommand } from "./commands/watch";
+
+const COMMANDS: Record<CliCommand, (options: CliOptions) => Promise<number>> = {
+  positions: runPositionsCommand,
+  summary: runSummaryCommand,
+  portfolio: runPortfolioCommand,
+  exposure: runExposureCommand,
+  scenario: runScenarioCommand,
+  markets: runMarketsCommand,
+  funding: runFundingCommand,
+  watch: runWatchCommand,
+  serve: runServeCommand,
+  history: runHistoryCommand,
+};
+
+/**
+ * Run the CLI
+ * @param argv Arguments after the script name
+ * @returns Process exit code (0: success, 1: fetch failed, 2: usage error)
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+    // Reject unknown protocol ids before any fetch starts
+    getAdapters(options.protocols);
+  } catch (error) {
+    logger.error(`❌ ${getErrorDetails(error).message}`);
+    process.stderr.write(`${USAGE}\n`);
+    return 2;
+  }
+
+  if (options.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  return COMMANDS[options.command](options);
+}
@@ -0,0 +1,50 @@
+/**
+ * Underlying asset mapping
+ * Protocols name the same underlying differently: Drift lists perps by base asset symbol ("BTC", "1MBONK") and spot
+ * markets by token symbol ("wBTC", "SOL-2" for the SOL market of pool 2), Jupiter by custody token symbol. Exposure
+ * is grouped by a common asset id derived from these symbols.
+ */
+
+/** Wrapped or bridged tokens that track their underlying 1:1, keyed by upper-case symbol */
+export const ASSET_ALIASES: Readonly<Record<string, string>> = {
+  WSOL: "SOL",
+  WBTC: "BTC",
+  CBBTC: "BTC",
+  ZBTC: "BTC",
+  LBTC: "BTC",
+  WETH: "ETH",
+};
+
+/** USD stablecoins: balances in them are collateral, not exposure to an asset */
+export const QUOTE_ASSET_IDS: readonly string[] = ["USD", "USDC", "USDT", "PYUSD", "USDS", "AUSD", "USDE"];
+
+/** Drift quotes low-priced perps per thousand or million tokens (e.g., "1MBONK" is 1,000,000 BONK) */
+const UNIT_PREFIXES: Readonly<Record<string, number>> = { K: 1_000, M: 1_000_000 };
+
+/** Common asset of a protocol symbol */
+export interface UnderlyingAsset {
+  /** Asset id shared across protocols (e.g., "BTC") */
+  assetId: string;
+  /** Asset units per unit of the protocol symbol (1000 for "1KWEN") */
+  unitMultiplier: number;
+}
+
+/**
+ * Map a protocol market or token symbol to its underlying asset
+ * Pool suffixes are dropped, symbols are compared case-insensitively and wrapped tokens map to their underlying.
+ * Liquid staking tokens (mSOL, jitoSOL, ...) are kept as their own assets: they do not trade 1:1 with SOL.
+ */
+export function resolveUnderlyingAsset(symbol: string): UnderlyingAsset {
+  const token = symbol.replace(/-\d+$/, "").toUpperCase();
+  const prefixed = /^1([KM])(.+)$/.exec(token);
+  const unitMultiplier = prefixed?.[1] ? (UNIT_PREFIXES[prefixed[1]] ?? 1) : 1;
+  const base = prefixed?.[2] ?? token;
+  return { assetId: ASSET_ALIASES[base] ?? base, unitMultiplier };
+}
+
+/**
+ * Whether an asset id is a USD stablecoin
+ */
+export function isQuoteAsset(assetId: string): boolean {
+  return QUOTE_ASSET_IDS.includes(assetId);
+}
@@ -71,101 +71,947 @@ export type Perpetuals = {
         ];
       };
     },
+    {
+      name: "custody";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "pool";
+            type: "publicKey";
+          },
+          {
+            name: "mint";
+            type: "publicKey";
+          },
+          {
+            name: "tokenAccount";
+            type: "publicKey";
+          },
+          {
+            name: "decimals";
+            type: "u8";
+          },
+          {
+            name: "isStable";
+            type: "bool";
+          },
+          {
+            name: "oracle";
+            type: {
+              defined: "OracleParams";
+            };
+          },
+          {
+            name: "pricing";
+            type: {
+              defined: "PricingParams";
+            };
+          },
+          {
+            name: "permissions";
+            type: {
+              defined: "Permissions";
+            };
+          },
+          {
+            name: "targetRatioBps";
+            type: "u64";
+          },
+          {
+            name: "assets";
+            type: {
+              defined: "Assets";
+            };
+          },
+          {
+            name: "fundingRateState";
+            type: {
+              defined: "FundingRateState";
+            };
+          },
+          {
+            name: "bump";
+            type: "u8";
+          },
+          {
+            name: "tokenAccountBump";
+            type: "u8";
+          },
+          {
+            name: "increasePositionBps";
+            type: "u64";
+          },
+          {
+            name: "decreasePositionBps";
+            type: "u64";
+          },
+          {
+            name: "maxPositionSizeUsd";
+            type: "u64";
+          },
+          {
+            name: "dovesOracle";
+            type: "publicKey";
+          },
+          {
+            name: "jumpRateState";
+            type: {
+              defined: "JumpRateState";
+            };
+          },
+          {
+            name: "dovesAgOracle";
+            type: "publicKey";
+          },
+        ];
+      };
+    },
+    {
+      name: "pool";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "name";
+            type: "string";
+          },
+          {
+            name: "custodies";
+            type: {
+              vec: "publicKey";
+            };
+          },
+          {
+            name: "aumUsd";
+            type: "u128";
+          },
+          {
+            name: "limit";
+            type: {
+              defined: "Limit";
+            };
+          },
+          {
+            name: "fees";
+            type: {
+              defined: "Fees";
+            };
+          },
+          {
+            name: "poolApr";
+            type: {
+              defined: "PoolApr";
+            };
+          },
+          {
+            name: "maxRequestExecutionSec";
+            type: "i64";
+          },
+          {
+            name: "bump";
+            type: "u8";
+          },
+          {
+            name: "lpTokenBump";
+            type: "u8";
+          },
+          {
+            name: "inceptionTime";
+            type: "i64";
+          },
+        ];
+      };
+    },
+  ];
+  types: [
+    {
+      name: "Assets";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "feesReserves";
+            type: "u64";
+          },
+          {
+            name: "owned";
+            type: "u64";
+          },
+          {
+            name: "locked";
+            type: "u64";
+          },
+          {
+            name: "guaranteedUsd";
+            type: "u64";
+          },
+          {
+            name: "globalShortSizes";
+            type: "u64";
+          },
+          {
+            name: "globalShortAveragePrices";
+            type: "u64";
+          },
+        ];
+      };
+    },
+    {
+      name: "Fees";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "swapMultiplier";
+            type: "u64";
+          },
+          {
+            name: "stableSwapMultiplier";
+            type: "u64";
+          },
+          {
+            name: "addRemoveLiquidityBps";
+            type: "u64";
+          },
+          {
+            name: "swapBps";
+            type: "u64";
+          },
+          {
+            name: "taxBps";
+            type: "u64";
+          },
+          {
+            name: "stableSwapBps";
+            type: "u64";
+          },
+          {
+            name: "stableSwapTaxBps";
+            type: "u64";
+          },
+          {
+            name: "liquidationRewardBps";
+            type: "u64";
+          },
+          {
+            name: "protocolShareBps";
+            type: "u64";
+          },
+        ];
+      };
+    },
+    {
+      name: "FundingRateState";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "cumulativeInterestRate";
+            type: "u128";
+          },
+          {
+            name: "lastUpdate";
+            type: "i64";
+          },
+          {
+            name: "hourlyFundingDbps";
+            type: "u64";
+          },
+        ];
+      };
+    },
+    {
+      name: "JumpRateState";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "minRateBps";
+            type: "u64";
+          },
+          {
+            name: "maxRateBps";
+            type: "u64";
+          },
+          {
+            name: "targetRateBps";
+            type: "u64";
+          },
+          {
+            name: "targetUtilizationRate";
+            type: "u64";
+          },
+        ];
+      };
+    },
+    {
+      name: "Limit";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "maxAumUsd";
+            type: "u128";
+          },
+          {
+            name: "tokenWeightageBufferBps";
+            type: "u128";
+          },
+          {
+            name: "maxPositionUsd";
+            type: "u64";
+          },
+        ];
+      };
+    },
+    {
+      name: "OracleParams";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "oracleAccount";
+            type: "publicKey";
+          },
+          {
+            name: "oracleType";
+            type: {
+              defined: "OracleType";
+            };
+          },
+          {
+            name: "buffer";
+            type: "u64";
+          },
+          {
+            name: "maxPriceAgeSec";
+            type: "u64";
+          },
+        ];
+      };
+    },
+    {
+      name: "Permissions";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "allowSwap";
+            type: "bool";
+          },
+          {
+            name: "allowAddLiquidity";
+            type: "bool";
+          },
+          {
+            name: "allowRemoveLiquidity";
+            type: "bool";
+          },
+          {
+            name: "allowIncreasePosition";
+            type: "bool";
+          },
+          {
+            name: "allowDecreasePosition";
+            type: "bool";
+          },
+          {
+            name: "allowCollateralWithdrawal";
+            type: "bool";
+          },
+          {
+            name: "allowLiquidatePosition";
+            type: "bool";
+          },
+        ];
+      };
+    },
+    {
+      name: "PoolApr";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "lastUpdated";
+            type: "i64";
+          },
+          {
+            name: "feeAprBps";
+            type: "u64";
+          },
+          {
+            name: "realizedFeeUsd";
+            type: "u64";
+          },
+        ];
+      };
+    },
+    {
+      name: "PricingParams";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "tradeImpactFeeScalar";
+            type: "u64";
+          },
+          {
+            name: "buffer";
+            type: "u64";
+          },
+          {
+            name: "swapSpread";
+            type: "u64";
+          },
+          {
+            name: "maxLeverage";
+            type: "u64";
+          },
+          {
+            name: "maxGlobalLongSizes";
+            type: "u64";
+          },
+          {
+            name: "maxGlobalShortSizes";
+            type: "u64";
+          },
+        ];
+      };
+    },
+    {
+      name: "OracleType";
+      type: {
+        kind: "enum";
+        variants: [
+          {
+            name: "None";
+          },
+          {
+            name: "Test";
+          },
+          {
+            name: "Pyth";
+          },
+        ];
+      };
+    },
+    {
+      name: "Side";
+      type: {
+        kind: "enum";
+        variants: [
+          {
+            name: "None";
+          },
+          {
+            name: "Long";
+          },
+          {
+            name: "Short";
+          },
+        ];
+      };
+    },
   ];
+};
+
+export const IDL: Idl = {
+  version: "0.1.0",
+  name: "perpetuals",
+  instructions: [],
+  accounts: [
+    {
+      name: "position",
+      type: {
+        kind: "struct",
+        fields: [
+          {
+            name: "owner",
+            type: "publicKey",
+          },
+          {
+            name: "pool",
+            type: "publicKey",
+          },
+          {
+            name: "custody",
+            type: "publicKey",
+          },
+          {
+            name: "collateralCustody",
+            type: "publicKey",
+          },
+          {
+            name: "openTime",
+            type: "i64",
+          },
+          {
+            name: "updateTime",
+            type: "i64",
+          },
+          {
+            name: "side",
+            type: {
+              defined: "Side",
+            },
+          },
+          {
+            name: "price",
+            type: "u64",
+          },
+          {
+            name: "sizeUsd",
+            type: "u64",
+          },
+          {
+            name: "collateralUsd",
+            type: "u64",
+          },
+          {
+            name: "realisedPnlUsd",
+            type: "i64",
+          },
+          {
+            name: "cumulativeInterestSnapshot",
+            type: "u128",
+          },
+          {
+            name: "lockedAmount",
+            type: "u64",
+          },
+          {
+            name: "bump",
+            type: "u8",
+          },
+        ],
+      },
+    },
+    {
+      name: "custody",
+      type: {
+        kind: "struct",
+        fields: [
+          {
+            name: "pool",
+            type: "publicKey",
+          },
+          {
+            name: "mint",
+            type: "publicKey",
+          },
+          {
+            name: "tokenAccount",
+            type: "publicKey",
+          },
+          {
+            name: "decimals",
+            type: "u8",
+          },
+          {
+            name: "isStable",
+            type: "bool",
+          },
+          {
+            name: "oracle",
+            type: {
+              defined: "OracleParams",
+            },
+          },
+          {
+            name: "pricing",
+            type: {
+              defined: "PricingParams",
+            },
+          },
+          {
+            name: "permissions",
+            type: {
+              defined: "Permissions",
+            },
+          },
+          {
+            name: "targetRatioBps",
+            type: "u64",
+          },
+          {
+            name: "assets",
+            type: {
+              defined: "Assets",
+            },
+          },
+          {
+            name: "fundingRateState",
+            type: {
+              defined: "FundingRateState",
+            },
+          },
+          {
+            name: "bump",
+            type: "u8",
+          },
+          {
+            name: "tokenAccountBump",
+            type: "u8",
+          },
+          {
+            name: "increasePositionBps",
+            type: "u64",
+          },
+          {
+            name: "decreasePositionBps",
+            type: "u64",
+          },
+          {
+            name: "maxPositionSizeUsd",
+            type: "u64",
+          },
+          {
+            name: "dovesOracle",
+            type: "publicKey",
+          },
+          {
+            name: "jumpRateState",
+            type: {
+              defined: "JumpRateState",
+            },
+          },
+          {
+            name: "dovesAgOracle",
+            type: "publicKey",
+          },
+        ],
+      },
+    },
+    {
+      name: "pool",
+      type: {
+        kind: "struct",
+        fields: [
+          {
+            name: "name",
+            type: "string",
+          },
+          {
+            name: "custodies",
+            type: {
+              vec: "publicKey",
+            },
+          },
+          {
+            name: "aumUsd",
+            type: "u128",
+          },
+          {
+            name: "limit",
+            type: {
+              defined: "Limit",
+            },
+          },
+          {
+            name: "fees",
+            type: {
+              defined: "Fees",
+            },
+          },
+          {
+            name: "poolApr",
+            type: {
+              defined: "PoolApr",
+            },
+          },
+          {
+            name: "maxRequestExecutionSec",
+            type: "i64",
+          },
+          {
+            name: "bump",
+            type: "u8",
+          },
+          {
+            name: "lpTokenBump",
+            type: "u8",
+          },
+          {
+            name: "inceptionTime",
+            type: "i64",
+          },
+        ],
+      },
+    },
+  ],
   types: [
     {
-      name: "Side";
+      name: "Assets",
       type: {
-        kind: "enum";
-        variants: [
+        kind: "struct",
+        fields: [
           {
-            name: "None";
+            name: "feesReserves",
+            type: "u64",
           },
           {
-            name: "Long";
+            name: "owned",
+            type: "u64",
           },
           {
-            name: "Short";
+            name: "locked",
+            type: "u64",
           },
-        ];
-      };
+          {
+            name: "guaranteedUsd",
+            type: "u64",
+          },
+          {
+            name: "globalShortSizes",
+            type: "u64",
+          },
+          {
+            name: "globalShortAveragePrices",
+            type: "u64",
+          },
+        ],
+      },
     },
-  ];
-};
-
-export const IDL: Idl = {
-  version: "0.1.0",
-  name: "perpetuals",
-  instructions: [],
-  accounts: [
     {
-      name: "position",
+      name: "Fees",
       type: {
         kind: "struct",
         fields: [
           {
-            name: "owner",
-            type: "publicKey",
+            name: "swapMultiplier",
+            type: "u64",
           },
           {
-            name: "pool",
-            type: "publicKey",
+            name: "stableSwapMultiplier",
+            type: "u64",
           },
           {
-            name: "custody",
-            type: "publicKey",
+            name: "addRemoveLiquidityBps",
+            type: "u64",
           },
           {
-            name: "collateralCustody",
-            type: "publicKey",
+            name: "swapBps",
+            type: "u64",
           },
           {
-            name: "openTime",
-            type: "i64",
+            name: "taxBps",
+            type: "u64",
           },
           {
-            name: "updateTime",
+            name: "stableSwapBps",
+            type: "u64",
+          },
+          {
+            name: "stableSwapTaxBps",
+            type: "u64",
+          },
+          {
+            name: "liquidationRewardBps",
+            type: "u64",
+          },
+          {
+            name: "protocolShareBps",
+            type: "u64",
+          },
+        ],
+      },
+    },
+    {
+      name: "FundingRateState",
+      type: {
+        kind: "struct",
+        fields: [
+          {
+            name: "cumulativeInterestRate",
+            type: "u128",
+          },
+          {
+            name: "lastUpdate",
             type: "i64",
           },
           {
-            name: "side",
+            name: "hourlyFundingDbps",
+            type: "u64",
+          },
+        ],
+      },
+    },
+    {
+      name: "JumpRateState",
+      type: {
+        kind: "struct",
+        fields: [
+          {
+            name: "minRateBps",
+            type: "u64",
+          },
+          {
+            name: "maxRateBps",
+            type: "u64",
+          },
+          {
+            name: "targetRateBps",
+            type: "u64",
+          },
+          {
+            name: "targetUtilizationRate",
+            type: "u64",
+          },
+        ],
+      },
+    },
+    {
+      name: "Limit",
+      type: {
+        kind: "struct",
+        fields: [
+          {
+            name: "maxAumUsd",
+            type: "u128",
+          },
+          {
+            name: "tokenWeightageBufferBps",
+            type: "u128",
+          },
+          {
+            name: "maxPositionUsd",
+            type: "u64",
+          },
+        ],
+      },
+    },
+    {
+      name: "OracleParams",
+      type: {
+        kind: "struct",
+        fields: [
+          {
+            name: "oracleAccount",
+            type: "publicKey",
+          },
+          {
+            name: "oracleType",
             type: {
-              defined: "Side",
+              defined: "OracleType",
             },
           },
           {
-            name: "price",
+            name: "buffer",
             type: "u64",
           },
           {
-            name: "sizeUsd",
+            name: "maxPriceAgeSec",
             type: "u64",
           },
+        ],
+      },
+    },
+    {
+      name: "Permissions",
+      type: {
+        kind: "struct",
+        fields: [
           {
-            name: "collateralUsd",
-            type: "u64",
+            name: "allowSwap",
+            type: "bool",
           },
           {
-            name: "realisedPnlUsd",
+            name: "allowAddLiquidity",
+            type: "bool",
+          },
+          {
+            name: "allowRemoveLiquidity",
+            type: "bool",
+          },
+          {
+            name: "allowIncreasePosition",
+            type: "bool",
+          },
+          {
+            name: "allowDecreasePosition",
+            type: "bool",
+          },
+          {
+            name: "allowCollateralWithdrawal",
+            type: "bool",
+          },
+          {
+            name: "allowLiquidatePosition",
+            type: "bool",
+          },
+        ],
+      },
+    },
+    {
+      name: "PoolApr",
+      type: {
+        kind: "struct",
+        fields: [
+          {
+            name: "lastUpdated",
             type: "i64",
           },
           {
-            name: "cumulativeInterestSnapshot",
-            type: "u128",
+            name: "feeAprBps",
+            type: "u64",
           },
           {
-            name: "lockedAmount",
+            name: "realizedFeeUsd",
             type: "u64",
           },
+        ],
+      },
+    },
+    {
+      name: "PricingParams",
+      type: {
+        kind: "struct",
+        fields: [
           {
-            name: "bump",
-            type: "u8",
+            name: "tradeImpactFeeScalar",
+            type: "u64",
+          },
+          {
+            name: "buffer",
+            type: "u64",
+          },
+          {
+            name: "swapSpread",
+            type: "u64",
+          },
+          {
+            name: "maxLeverage",
+            type: "u64",
+          },
+          {
+            name: "maxGlobalLongSizes",
+            type: "u64",
+          },
+          {
+            name: "maxGlobalShortSizes",
+            type: "u64",
+          },
+        ],
+      },
+    },
+    {
+      name: "OracleType",
+      type: {
+        kind: "enum",
+        variants: [
+          {
+            name: "None",
+          },
+          {
+            name: "Test",
+          },
+          {
+            name: "Pyth",
           },
         ],
       },
     },
-  ],
-  types: [
     {
       name: "Side",
       type: {
@@ -1,6 +1,10 @@
-export const RPC_URL = `https://mainnet.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}`;
-export const USER_ADDRESS = "86oHY5tUBn4gqHSQAZJSUX6MU7WJVpg8bn8MZ4jKEb63";
+/** Default wallet when none is given on the command line */
+export const USER_ADDRESS = process.env.USER_ADDRESS || "86oHY5tUBn4gqHSQAZJSUX6MU7WJVpg8bn8MZ4jKEb63";
+/** Snapshot database; fetches are only persisted when it is set here or with --db */
+export const SNAPSHOT_DB_PATH = process.env.SNAPSHOT_DB_PATH || undefined;
 
+export * from "./assets";
 export * from "./idl/jupiter";
 // Export Jupiter constants
 export * from "./jupiter";
+export * from "./network";
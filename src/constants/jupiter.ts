@@ -1,17 +1,11 @@
 import { AnchorProvider, BN, Program, Wallet } from "@coral-xyz/anchor";
-import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { Keypair, PublicKey } from "@solana/web3.js";
 import { IDL } from "./idl/jupiter";
+import { JUPITER_MAINNET, RPC_CONNECTION } from "./network";
 
-// RPC Connection (matching reference repo pattern)
-export const RPC_CONNECTION = new Connection(
-  process.env.HELIUS_API_KEY
-    ? `https://mainnet.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}`
-    : "https://api.mainnet-beta.solana.com",
-);
-
-export const JUPITER_PERPETUALS_PROGRAM_ID = new PublicKey("PERPHjGBqRHArX4DySjwM6UJHiR3sWAatqfdBS2qQJu");
+export const JUPITER_PERPETUALS_PROGRAM_ID = JUPITER_MAINNET.programId;
 
-export const JLP_POOL_ACCOUNT_PUBKEY = new PublicKey("5BUwFW4nRbftYTDMbgxykoFWqWHPzahFSNAaaaJtVKsq");
+export const JLP_POOL_ACCOUNT_PUBKEY = JUPITER_MAINNET.poolAccount;
 
 // Direct Program instantiation (exact reference repo pattern)
 export const JUPITER_PERPETUALS_PROGRAM = new Program(
@@ -36,27 +30,49 @@ export const CUSTODY_PUBKEYS = [
   new PublicKey(CUSTODY_PUBKEY.USDT),
 ];
 
-// Jupiter Perps market information
+/** USDC mint; swap quotes are priced against it */
+export const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+/**
+ * Jupiter Perps market information
+ * Markets are discovered from the JLP pool at runtime; this table is the offline fallback and names known mints
+ */
 export const JUPITER_MARKETS = [
-  { symbol: "SOL", custody: CUSTODY_PUBKEY.SOL, marketIndex: 0 },
-  { symbol: "BTC", custody: CUSTODY_PUBKEY.BTC, marketIndex: 1 },
-  { symbol: "ETH", custody: CUSTODY_PUBKEY.ETH, marketIndex: 2 },
-  { symbol: "USDC", custody: CUSTODY_PUBKEY.USDC, marketIndex: 3 },
-  { symbol: "USDT", custody: CUSTODY_PUBKEY.USDT, marketIndex: 4 },
+  {
+    symbol: "SOL",
+    custody: CUSTODY_PUBKEY.SOL,
+    marketIndex: 0,
+    mint: "So11111111111111111111111111111111111111112",
+    decimals: 9,
+  },
+  {
+    symbol: "BTC",
+    custody: CUSTODY_PUBKEY.BTC,
+    marketIndex: 1,
+    mint: "3NZ9JMVBmGAqocybic2c7LQCJScmgsAZ6vQqTDzcqmJh", // Wrapped Bitcoin
+    decimals: 8,
+  },
+  {
+    symbol: "ETH",
+    custody: CUSTODY_PUBKEY.ETH,
+    marketIndex: 2,
+    mint: "7vfCXTUXx5WJV5JADk17DUJ4ksgau7utNKj4b963voxs", // Wrapped Ethereum
+    decimals: 8,
+  },
+  { symbol: "USDC", custody: CUSTODY_PUBKEY.USDC, marketIndex: 3, mint: USDC_MINT, decimals: 6 },
+  {
+    symbol: "USDT",
+    custody: CUSTODY_PUBKEY.USDT,
+    marketIndex: 4,
+    mint: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+    decimals: 6,
+  },
 ];
 
 // Precision constants
 export const USDC_DECIMALS = 6;
 export const USD_PRECISION = 1e6; // Jupiter uses 6 decimals for USD values
+export const USD_DECIMALS = 6;
 export const BPS_POWER = new BN(10_000);
 export const DBPS_POWER = new BN(100_000);
 export const RATE_POWER = new BN(1_000_000_000);
-
-// Backwards compatibility
-export const RPC_URL = process.env.HELIUS_API_KEY
-  ? `https://mainnet.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}`
-  : "https://api.mainnet-beta.solana.com";
-
-export function createRpcConnection(rpcUrl: string): Connection {
-  return new Connection(rpcUrl, "confirmed");
-}
@@ -0,0 +1,139 @@
+import type { DriftEnv } from "@drift-labs/sdk";
+import { Connection, type ConnectionConfig, PublicKey } from "@solana/web3.js";
+import { getRpcPool } from "../utils/rpc";
+
+/**
+ * Network profiles
+ * A profile selects everything that differs between clusters together: the default RPC endpoints, the Drift
+ * environment (program id and market table), the Jupiter Perpetuals deployment and the usable price sources.
+ * SOLANA_NETWORK picks the default profile; commands and adapters can select another one per call.
+ */
+
+export const NETWORK_IDS = ["mainnet-beta", "devnet", "localnet"] as const;
+export type NetworkId = (typeof NETWORK_IDS)[number];
+
+/** Jupiter Perpetuals program and JLP pool of a network */
+export interface JupiterDeployment {
+  programId: PublicKey;
+  poolAccount: PublicKey;
+}
+
+export interface NetworkProfile {
+  id: NetworkId;
+  /** Default RPC endpoints in order of preference */
+  rpcUrls: string[];
+  /** Drift SDK environment: program id and perp market table */
+  driftEnv: DriftEnv;
+  /** Jupiter Perpetuals deployment (undefined where the program is not deployed) */
+  jupiter?: JupiterDeployment;
+  /** Whether positions without an oracle price may be priced with the Jupiter Quote API, which quotes mainnet only */
+  quotePrices: boolean;
+}
+
+export const isNetworkId = (value: string): value is NetworkId => NETWORK_IDS.includes(value as NetworkId);
+
+/**
+ * Default network: SOLANA_NETWORK, or mainnet-beta when unset
+ */
+export const DEFAULT_NETWORK: NetworkId = parseNetworkId(process.env.SOLANA_NETWORK || "mainnet-beta");
+
+/** Jupiter Perpetuals on mainnet; a local validator clones it under the same addresses */
+export const JUPITER_MAINNET: JupiterDeployment = {
+  programId: new PublicKey("PERPHjGBqRHArX4DySjwM6UJHiR3sWAatqfdBS2qQJu"),
+  poolAccount: new PublicKey("5BUwFW4nRbftYTDMbgxykoFWqWHPzahFSNAaaaJtVKsq"),
+};
+
+const NETWORK_PROFILES: Record<NetworkId, NetworkProfile> = {
+  "mainnet-beta": {
+    id: "mainnet-beta",
+    rpcUrls: getDefaultRpcUrls("mainnet-beta", [...getHeliusUrls("mainnet"), "https://api.mainnet-beta.solana.com"]),
+    driftEnv: "mainnet-beta",
+    jupiter: JUPITER_MAINNET,
+    quotePrices: true,
+  },
+  devnet: {
+    id: "devnet",
+    rpcUrls: getDefaultRpcUrls("devnet", [...getHeliusUrls("devnet"), "https://api.devnet.solana.com"]),
+    driftEnv: "devnet",
+    quotePrices: false,
+  },
+  // solana-test-validator with the mainnet programs and accounts cloned; swap quotes would use live mainnet prices
+  localnet: {
+    id: "localnet",
+    rpcUrls: getDefaultRpcUrls("localnet", ["http://127.0.0.1:8899"]),
+    driftEnv: "mainnet-beta",
+    jupiter: JUPITER_MAINNET,
+    quotePrices: false,
+  },
+};
+
+/**
+ * Profile of a network
+ * @param network Network id (default: DEFAULT_NETWORK)
+ */
+export function getNetworkProfile(network: NetworkId = DEFAULT_NETWORK): NetworkProfile {
+  return NETWORK_PROFILES[network];
+}
+
+/**
+ * Validate a network id
+ * @throws Error for anything but a known network id
+ */
+export function parseNetworkId(value: string): NetworkId {
+  if (!isNetworkId(value)) {
+    throw new Error(`Invalid network: ${value} (expected ${NETWORK_IDS.join(", ")})`);
+  }
+  return value;
+}
+
+/**
+ * Default RPC endpoints of the default network, in order of preference
+ * RPC_URLS (comma-separated) replaces the list; otherwise Helius is tried first when HELIUS_API_KEY is set
+ */
+export const RPC_URLS: string[] = getNetworkProfile().rpcUrls;
+
+/** Primary default endpoint */
+export const RPC_URL = RPC_URLS[0] ?? "https://api.mainnet-beta.solana.com";
+
+/**
+ * Create a connection on the shared endpoint pool (retries, failover, health tracking)
+ * Connections to the same endpoints share one pool, so the Drift client and the Jupiter program see the same health
+ * @param rpcUrl Endpoint or comma-separated endpoints overriding the network's endpoints
+ * @param network Network whose endpoints are used without an override (default: DEFAULT_NETWORK)
+ */
+export function createRpcConnection(rpcUrl?: string, network?: NetworkId): Connection {
+  const pool = getRpcPool(resolveRpcUrls(rpcUrl, network));
+  return new Connection(pool.primaryUrl, {
+    commitment: "confirmed",
+    fetch: pool.fetch as unknown as ConnectionConfig["fetch"],
+  });
+}
+
+/**
+ * Endpoint list for an optional override
+ */
+export function resolveRpcUrls(rpcUrl?: string, network?: NetworkId): string[] {
+  return rpcUrl ? parseRpcUrls(rpcUrl) : getNetworkProfile(network).rpcUrls;
+}
+
+/**
+ * Split a comma-separated endpoint list
+ */
+export function parseRpcUrls(value: string): string[] {
+  return value
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+// RPC Connection (matching reference repo pattern)
+export const RPC_CONNECTION = createRpcConnection();
+
+/** RPC_URLS replaces the endpoints of the default network only */
+function getDefaultRpcUrls(network: NetworkId, urls: string[]): string[] {
+  return process.env.RPC_URLS && network === DEFAULT_NETWORK ? parseRpcUrls(process.env.RPC_URLS) : urls;
+}
+
+function getHeliusUrls(cluster: "mainnet" | "devnet"): string[] {
+  return process.env.HELIUS_API_KEY ? [`https://${cluster}.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}`] : [];
+}
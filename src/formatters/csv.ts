@@ -0,0 +1,23 @@
+import { buildTotalsRow, type CellValue, type Column } from "./types";
+
+/**
+ * Serialize rows as RFC 4180 CSV with a header line
+ * @param totalsLabel Appends a totals row with this label when given
+ */
+export function formatCsv<T>(columns: Column<T>[], rows: T[], totalsLabel?: string): string {
+  const lines = [
+    columns.map((column) => escapeCsv(column.header)),
+    ...rows.map((row) => columns.map((column) => escapeCsv(column.value(row)))),
+  ];
+  if (totalsLabel !== undefined) {
+    lines.push(buildTotalsRow(columns, rows, totalsLabel).map(escapeCsv));
+  }
+  return lines.map((cells) => `${cells.join(",")}\r\n`).join("");
+}
+
+function escapeCsv(value: CellValue): string {
+  if (value === undefined) return "";
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
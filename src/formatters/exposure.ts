@@ -0,0 +1,71 @@
+import type { AssetExposure, ExposureReport } from "../types";
+import { Decimal } from "../utils/decimal";
+import { formatCsv } from "./csv";
+import { formatJson, formatNdjson } from "./json";
+import { formatTable } from "./table";
+import type { Column, OutputFormat } from "./types";
+
+const sumUsd = (rows: AssetExposure[], pick: (row: AssetExposure) => Decimal) => Decimal.sum(rows.map(pick));
+
+export const EXPOSURE_COLUMNS: Column<AssetExposure>[] = [
+  { header: "asset", value: (row) => row.assetId },
+  { header: "protocols", value: (row) => row.protocols.join(",") },
+  { header: "symbols", value: (row) => row.symbols.join(",") },
+  { header: "positions", value: (row) => row.positionCount },
+  { header: "spotBalances", value: (row) => row.spotBalanceCount },
+  { header: "netBaseAmount", value: (row) => row.netBaseAmount, decimals: 4 },
+  {
+    header: "longUsd",
+    value: (row) => row.longNotionalUsd,
+    decimals: 2,
+    total: (rows) => sumUsd(rows, (row) => row.longNotionalUsd),
+  },
+  {
+    header: "shortUsd",
+    value: (row) => row.shortNotionalUsd,
+    decimals: 2,
+    total: (rows) => sumUsd(rows, (row) => row.shortNotionalUsd),
+  },
+  {
+    header: "netUsd",
+    value: (row) => row.netNotionalUsd,
+    decimals: 2,
+    total: (rows) => sumUsd(rows, (row) => row.netNotionalUsd),
+  },
+  {
+    header: "grossUsd",
+    value: (row) => row.grossNotionalUsd,
+    decimals: 2,
+    total: (rows) => sumUsd(rows, (row) => row.grossNotionalUsd),
+  },
+  { header: "hedge", value: (row) => (row.hedged ? "HEDGED" : undefined) },
+  { header: "hedgedUsd", value: (row) => row.hedgedNotionalUsd, decimals: 2 },
+];
+
+/**
+ * Serialize an exposure report in the requested format
+ * - json: one document with the assets and totals
+ * - ndjson: one line per asset followed by the totals, tagged with `type`
+ * - csv: one row per asset followed by a TOTAL row
+ * - table: one row per asset followed by a TOTAL row, then collateral and effective leverage
+ */
+export function formatExposureReport(format: OutputFormat, report: ExposureReport): string {
+  switch (format) {
+    case "json":
+      return formatJson(report);
+    case "ndjson":
+      return formatNdjson([
+        ...report.assets.map((asset) => ({ type: "asset", ...asset })),
+        { type: "totals", ...report.totals },
+      ]);
+    case "csv":
+      return formatCsv(EXPOSURE_COLUMNS, report.assets, "TOTAL");
+    case "table": {
+      const { collateralUsd, effectiveLeverage } = report.totals;
+      return (
+        `${formatTable(EXPOSURE_COLUMNS, report.assets, "TOTAL")}\n` +
+        `Collateral: $${collateralUsd.toFixed(2)}, Effective leverage: ${effectiveLeverage.toFixed(2)}x\n`
+      );
+    }
+  }
+}
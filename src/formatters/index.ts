@@ -0,0 +1,30 @@
+import { formatCsv } from "./csv";
+import { formatJson, formatNdjson } from "./json";
+import { formatTable } from "./table";
+import type { Column, OutputFormat } from "./types";
+
+export * from "./csv";
+export * from "./exposure";
+export * from "./json";
+export * from "./portfolio";
+export * from "./positions";
+export * from "./scenario";
+export * from "./table";
+export * from "./types";
+
+/**
+ * Serialize plain rows in the requested format
+ * JSON formats serialize the row objects as-is; CSV and table use the column definitions
+ */
+export function formatRows<T>(format: OutputFormat, columns: Column<T>[], rows: T[]): string {
+  switch (format) {
+    case "json":
+      return formatJson(rows);
+    case "ndjson":
+      return formatNdjson(rows);
+    case "csv":
+      return formatCsv(columns, rows);
+    case "table":
+      return formatTable(columns, rows);
+  }
+}
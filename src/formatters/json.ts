@@ -0,0 +1,13 @@
+/**
+ * Serialize a value as an indented JSON document
+ */
+export function formatJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+/**
+ * Serialize values as newline-delimited JSON, one compact document per line
+ */
+export function formatNdjson(values: unknown[]): string {
+  return values.map((value) => `${JSON.stringify(value)}\n`).join("");
+}
@@ -0,0 +1,82 @@
+import type { FetchFailure, Portfolio, PortfolioRollup } from "../types";
+import { Decimal } from "../utils/decimal";
+import { formatCsv } from "./csv";
+import { formatJson, formatNdjson } from "./json";
+import { formatTable } from "./table";
+import type { Column, OutputFormat } from "./types";
+
+type RollupGroup = "wallet" | "protocol" | "symbol";
+type RollupRow = PortfolioRollup & { groupBy: RollupGroup };
+
+const sum = (values: number[]) => values.reduce((acc, value) => acc + value, 0);
+
+const ROLLUP_COLUMNS: Column<PortfolioRollup>[] = [
+  { header: "key", value: (row) => row.key },
+  {
+    header: "positions",
+    value: (row) => row.positionCount,
+    total: (rows) => sum(rows.map((row) => row.positionCount)),
+  },
+  {
+    header: "notionalUsd",
+    value: (row) => row.notionalUsd,
+    decimals: 2,
+    total: (rows) => Decimal.sum(rows.map((row) => row.notionalUsd)),
+  },
+  {
+    header: "netSpotUsd",
+    value: (row) => row.netSpotUsd,
+    decimals: 2,
+    total: (rows) => Decimal.sum(rows.map((row) => row.netSpotUsd)),
+  },
+  { header: "netBaseAmount", value: (row) => row.netBaseAmount, decimals: 4 },
+  { header: "avgEntryPrice", value: (row) => row.averageEntryPrice, decimals: 4 },
+  { header: "pnl", value: (row) => row.pnl, decimals: 2, total: (rows) => Decimal.sum(rows.map((row) => row.pnl)) },
+];
+
+const CSV_COLUMNS: Column<RollupRow>[] = [{ header: "groupBy", value: (row) => row.groupBy }, ...ROLLUP_COLUMNS];
+
+const toRollupRows = (portfolio: Portfolio): RollupRow[] => [
+  ...portfolio.rollups.byWallet.map((row) => ({ groupBy: "wallet" as const, ...row })),
+  ...portfolio.rollups.byProtocol.map((row) => ({ groupBy: "protocol" as const, ...row })),
+  ...portfolio.rollups.bySymbol.map((row) => ({ groupBy: "symbol" as const, ...row })),
+];
+
+/**
+ * Serialize a portfolio in the requested format
+ * - json: the whole portfolio including positions
+ * - ndjson: one line per rollup, failure and warning followed by the totals, tagged with `type`
+ * - csv: one row per rollup with a `groupBy` column
+ * - table: one table per grouping followed by failures and warnings
+ */
+export function formatPortfolio(format: OutputFormat, portfolio: Portfolio): string {
+  switch (format) {
+    case "json":
+      return formatJson(portfolio);
+    case "ndjson":
+      return formatNdjson([
+        ...toRollupRows(portfolio).map((row) => ({ type: "rollup", ...row })),
+        ...portfolio.failures.map((failure) => ({ type: "failure", ...failure })),
+        ...portfolio.warnings.map((warning) => ({ type: "warning", ...warning })),
+        { type: "totals", ...portfolio.totals },
+      ]);
+    case "csv":
+      return formatCsv(CSV_COLUMNS, toRollupRows(portfolio));
+    case "table": {
+      const tables = [
+        `By wallet\n${formatTable(ROLLUP_COLUMNS, portfolio.rollups.byWallet, "TOTAL")}`,
+        `By protocol\n${formatTable(ROLLUP_COLUMNS, portfolio.rollups.byProtocol, "TOTAL")}`,
+        `By symbol\n${formatTable(ROLLUP_COLUMNS, portfolio.rollups.bySymbol, "TOTAL")}`,
+      ].join("\n");
+      const issues = [
+        ...portfolio.failures.map((failure) => formatIssueLine("FAILED", failure)),
+        ...portfolio.warnings.map((warning) => formatIssueLine("WARNING", warning)),
+      ].join("");
+      return issues ? `${tables}\n${issues}` : tables;
+    }
+  }
+}
+
+function formatIssueLine(label: string, issue: FetchFailure): string {
+  return `${label} ${issue.owner}${issue.protocol ? ` (${issue.protocol})` : ""} [${issue.code}]: ${issue.message}\n`;
+}
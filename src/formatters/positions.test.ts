@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import { createPosition, createSpotBalance, TEST_OWNER } from "../testing/fixtures";
+import type { Position } from "../types";
+import { calculatePortfolioTotals, Decimal } from "../utils";
+import { formatPositionReport, type PositionReport } from "./positions";
+import { formatTable } from "./table";
+import type { Column } from "./types";
+
+const d = Decimal.parse;
+
+const SOL_LONG = createPosition("drift", "SOL", "LONG", {
+  baseAmount: d("10"),
+  sizeUsd: d("1500"),
+  entryPrice: d("140"),
+  markPrice: d("150"),
+  pnl: d("100"),
+  leverage: 2,
+  protocolMarketId: "0",
+  subAccountId: 0,
+});
+
+const report = (overrides: Partial<PositionReport> = {}): PositionReport => ({
+  positions: [SOL_LONG],
+  spotBalances: [],
+  totals: calculatePortfolioTotals([SOL_LONG], overrides.spotBalances),
+  failures: [],
+  warnings: [],
+  ...overrides,
+});
+
+describe("formatPositionReport", () => {
+  test("csv: header, one row per position and a TOTAL row", () => {
+    expect(formatPositionReport("csv", report()).split("\r\n")).toEqual([
+      "owner,protocol,symbol,direction,baseAmount,sizeUsd,entryPrice,markPrice,pnl,fundingPnl,leverage,collateral," +
+        "collateralAmount,liquidationPrice,liqDistancePct,priceSource,marketId,subAccount",
+      `${TEST_OWNER},drift,SOL,LONG,10,1500,140,150,100,,2,,,,,,0,0`,
+      "TOTAL,,,,,1500,,,100,,,,,,,,,",
+      "",
+    ]);
+  });
+
+  test("csv: spot balances follow in their own section", () => {
+    const spotBalances = [createSpotBalance("USDC", "DEPOSIT", "250.5", "1")];
+    const sections = formatPositionReport("csv", report({ spotBalances })).split("\r\n\r\n");
+
+    expect(sections).toHaveLength(2);
+    expect(sections[1]?.split("\r\n").slice(0, 2)).toEqual([
+      "owner,protocol,symbol,side,tokenAmount,usdValue,price,depositAprPct,borrowAprPct,accountEquity,marketId,subAccount",
+      `${TEST_OWNER},drift,USDC,DEPOSIT,250.5,250.5,1,3,8,,USDC,`,
+    ]);
+  });
+
+  test("ndjson: one tagged line per item, totals last", () => {
+    const lines = formatPositionReport("ndjson", report())
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+
+    expect(lines.map((line) => line.type)).toEqual(["position", "totals"]);
+    expect(lines[0]).toMatchObject({ symbol: "SOL", sizeUsd: 1500, pnl: 100, subAccountId: 0 });
+    expect(lines[1]).toMatchObject({ positionCount: 1, notionalUsd: 1500, pnl: 100 });
+  });
+
+  test("json: Decimals serialize as plain numbers", () => {
+    const parsed = JSON.parse(formatPositionReport("json", report()));
+    expect(parsed.positions[0]).toMatchObject({ baseAmount: 10, entryPrice: 140, markPrice: 150 });
+    expect(parsed.totals.pnl).toBe(100);
+  });
+});
+
+describe("formatTable", () => {
+  test("right-aligns numbers at fixed decimals and left-aligns text", () => {
+    const columns: Column<Position>[] = [
+      { header: "symbol", value: (pos) => pos.symbol },
+      { header: "pnl", value: (pos) => pos.pnl, decimals: 2, total: (rows) => Decimal.sum(rows.map((pos) => pos.pnl)) },
+    ];
+    const rows = [SOL_LONG, createPosition("jupiter", "BTC", "SHORT", { pnl: d("-1234.5") })];
+
+    expect(formatTable(columns, rows, "TOTAL")).toBe(
+      [
+        "symbol       pnl",
+        "------  --------",
+        "SOL       100.00",
+        "BTC     -1234.50",
+        "------  --------",
+        "TOTAL   -1134.50",
+        "",
+      ].join("\n"),
+    );
+  });
+});
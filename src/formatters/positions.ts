@@ -0,0 +1,98 @@
+import type { FetchFailure, PortfolioTotals, Position, SpotBalance } from "../types";
+import { Decimal } from "../utils/decimal";
+import { formatCsv } from "./csv";
+import { formatJson, formatNdjson } from "./json";
+import { formatTable } from "./table";
+import type { Column, OutputFormat } from "./types";
+
+/** Positions and spot balances with portfolio totals and per-wallet / per-protocol failures and warnings */
+export interface PositionReport {
+  positions: Position[];
+  spotBalances: SpotBalance[];
+  totals: PortfolioTotals;
+  failures: FetchFailure[];
+  warnings: FetchFailure[];
+}
+
+export const POSITION_COLUMNS: Column<Position>[] = [
+  { header: "owner", value: (pos) => pos.owner },
+  { header: "protocol", value: (pos) => pos.protocol },
+  { header: "symbol", value: (pos) => pos.symbol },
+  { header: "direction", value: (pos) => pos.direction },
+  { header: "baseAmount", value: (pos) => pos.baseAmount, decimals: 4 },
+  {
+    header: "sizeUsd",
+    value: (pos) => pos.sizeUsd,
+    decimals: 2,
+    total: (rows) => Decimal.sum(rows.map((pos) => pos.sizeUsd)),
+  },
+  { header: "entryPrice", value: (pos) => pos.entryPrice, decimals: 4 },
+  { header: "markPrice", value: (pos) => pos.markPrice, decimals: 4 },
+  { header: "pnl", value: (pos) => pos.pnl, decimals: 2, total: (rows) => Decimal.sum(rows.map((pos) => pos.pnl)) },
+  { header: "fundingPnl", value: (pos) => pos.funding?.unsettledPnl, decimals: 2 },
+  { header: "leverage", value: (pos) => pos.leverage, decimals: 2 },
+  { header: "collateral", value: (pos) => pos.collateral?.symbol },
+  { header: "collateralAmount", value: (pos) => pos.collateral?.tokenAmount, decimals: 4 },
+  { header: "liquidationPrice", value: (pos) => pos.liquidationPrice, decimals: 4 },
+  { header: "liqDistancePct", value: (pos) => pos.liquidationDistancePercent, decimals: 2 },
+  { header: "priceSource", value: (pos) => pos.markPriceSource },
+  { header: "marketId", value: (pos) => pos.protocolMarketId },
+  { header: "subAccount", value: (pos) => pos.subAccountId },
+];
+
+export const SPOT_BALANCE_COLUMNS: Column<SpotBalance>[] = [
+  { header: "owner", value: (balance) => balance.owner },
+  { header: "protocol", value: (balance) => balance.protocol },
+  { header: "symbol", value: (balance) => balance.symbol },
+  { header: "side", value: (balance) => balance.side },
+  { header: "tokenAmount", value: (balance) => balance.tokenAmount, decimals: 4 },
+  { header: "usdValue", value: (balance) => balance.usdValue, decimals: 2 },
+  { header: "price", value: (balance) => balance.price, decimals: 4 },
+  { header: "depositAprPct", value: (balance) => balance.depositAprPercent, decimals: 2 },
+  { header: "borrowAprPct", value: (balance) => balance.borrowAprPercent, decimals: 2 },
+  { header: "accountEquity", value: (balance) => balance.accountMargin?.netAssetValue, decimals: 2 },
+  { header: "marketId", value: (balance) => balance.protocolMarketId },
+  { header: "subAccount", value: (balance) => balance.subAccountId },
+];
+
+/**
+ * Serialize a position report in the requested format
+ * - json: one document with positions, spot balances, totals, failures and warnings
+ * - ndjson: one line per position, spot balance, failure and warning followed by the totals, tagged with `type`
+ * - csv: one row per position followed by a TOTAL row, then a blank line and a second section with the spot balances
+ * - table: one row per position followed by a TOTAL row, then the spot balances and the account equity
+ * Failures and warnings are left to the logs in csv and table
+ */
+export function formatPositionReport(format: OutputFormat, report: PositionReport): string {
+  switch (format) {
+    case "json":
+      return formatJson(report);
+    case "ndjson":
+      return formatNdjson([
+        ...report.positions.map((position) => ({ type: "position", ...position })),
+        ...report.spotBalances.map((balance) => ({ type: "spot", ...balance })),
+        ...report.failures.map((failure) => ({ type: "failure", ...failure })),
+        ...report.warnings.map((warning) => ({ type: "warning", ...warning })),
+        { type: "totals", ...report.totals },
+      ]);
+    case "csv": {
+      const positions = formatCsv(POSITION_COLUMNS, report.positions, "TOTAL");
+      if (report.spotBalances.length === 0) {
+        return positions;
+      }
+      return `${positions}\r\n${formatCsv(SPOT_BALANCE_COLUMNS, report.spotBalances)}`;
+    }
+    case "table": {
+      const positions = formatTable(POSITION_COLUMNS, report.positions, "TOTAL");
+      if (report.spotBalances.length === 0) {
+        return positions;
+      }
+      const spotBalances = formatTable(SPOT_BALANCE_COLUMNS, report.spotBalances);
+      const { netSpotUsd, accountEquity } = report.totals;
+      return (
+        `${positions}\nSpot balances\n${spotBalances}\n` +
+        `Net spot value: $${netSpotUsd.toFixed(2)}, Account equity: $${accountEquity.toFixed(2)}\n`
+      );
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import type { ScenarioReport, ScenarioResult } from "../types";
+import { formatCsv } from "./csv";
+import { formatJson, formatNdjson } from "./json";
+import { formatTable } from "./table";
+import type { Column, OutputFormat } from "./types";
+
+/**
+ * Scenario matrix columns: the shock of every asset in the report, then the portfolio results
+ */
+export function getScenarioColumns(assetIds: string[]): Column<ScenarioResult>[] {
+  return [
+    { header: "scenario", value: (row) => row.name },
+    ...assetIds.map(
+      (assetId): Column<ScenarioResult> => ({
+        header: `${assetId} %`,
+        value: (row) => row.shocks[assetId] ?? 0,
+      }),
+    ),
+    { header: "pnl", value: (row) => row.pnl, decimals: 2 },
+    { header: "pnlChange", value: (row) => row.pnlChange, decimals: 2 },
+    { header: "marginUsd", value: (row) => row.marginUsd, decimals: 2 },
+    { header: "liquidated", value: (row) => row.liquidatedCount },
+    {
+      header: "liquidatedPositions",
+      value: (row) =>
+        row.positions
+          .filter((position) => position.liquidated)
+          .map((position) => `${position.protocol}:${position.symbol}:${position.direction}`)
+          .join(" ") || undefined,
+    },
+  ];
+}
+
+/**
+ * Serialize a scenario report in the requested format
+ * - json: one document with every scenario and its positions
+ * - ndjson: one line per scenario followed by its positions, tagged with `type` and the scenario name
+ * - csv, table: one row per scenario with the shock of every asset as a matrix
+ */
+export function formatScenarioReport(format: OutputFormat, report: ScenarioReport): string {
+  switch (format) {
+    case "json":
+      return formatJson(report);
+    case "ndjson":
+      return formatNdjson(
+        report.scenarios.flatMap(({ positions, ...scenario }) => [
+          { type: "scenario", ...scenario },
+          ...positions.map((position) => ({ type: "position", scenario: scenario.name, ...position })),
+        ]),
+      );
+    case "csv":
+      return formatCsv(getScenarioColumns(report.assetIds), report.scenarios);
+    case "table":
+      return formatTable(getScenarioColumns(report.assetIds), report.scenarios);
+  }
+}
@@ -0,0 +1,53 @@
+import { Decimal } from "../utils/decimal";
+import { buildTotalsRow, type CellValue, type Column } from "./types";
+
+const COLUMN_SEPARATOR = "  ";
+
+/**
+ * Render rows as a fixed-width table
+ * Numeric columns are right-aligned, text columns left-aligned
+ * @param totalsLabel Appends a divider and a totals row with this label when given
+ */
+export function formatTable<T>(columns: Column<T>[], rows: T[], totalsLabel?: string): string {
+  const cells = rows.map((row) => columns.map((column) => column.value(row)));
+  const totals = totalsLabel !== undefined ? buildTotalsRow(columns, rows, totalsLabel) : undefined;
+
+  const toTexts = (rowCells: CellValue[]) => rowCells.map((cell, index) => formatCell(cell, columns[index]?.decimals));
+  const texts = cells.map(toTexts);
+  const totalTexts = totals ? toTexts(totals) : undefined;
+
+  const widths = columns.map((column, index) =>
+    Math.max(
+      column.header.length,
+      totalTexts?.[index]?.length ?? 0,
+      ...texts.map((rowTexts) => rowTexts[index]?.length ?? 0),
+    ),
+  );
+  const isNumeric = columns.map((_, index) => [...cells, totals ?? []].some((rowCells) => isNumber(rowCells[index])));
+
+  const renderLine = (values: string[]) =>
+    values
+      .map((value, index) => {
+        const width = widths[index] ?? 0;
+        return isNumeric[index] ? value.padStart(width) : value.padEnd(width);
+      })
+      .join(COLUMN_SEPARATOR)
+      .trimEnd();
+
+  const divider = widths.map((width) => "-".repeat(width)).join(COLUMN_SEPARATOR);
+  const lines = [renderLine(columns.map((column) => column.header)), divider, ...texts.map(renderLine)];
+  if (totalTexts) {
+    lines.push(divider, renderLine(totalTexts));
+  }
+  return lines.map((line) => `${line}\n`).join("");
+}
+
+function formatCell(value: CellValue, decimals?: number): string {
+  if (value === undefined) return "";
+  if (isNumber(value) && decimals !== undefined) return value.toFixed(decimals);
+  return String(value);
+}
+
+function isNumber(value: CellValue): value is number | Decimal {
+  return typeof value === "number" || value instanceof Decimal;
+}
@@ -0,0 +1,26 @@
+import type { Decimal } from "../utils/decimal";
+
+export const OUTPUT_FORMATS = ["table", "json", "ndjson", "csv"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** Cell value; undefined renders as an empty cell */
+export type CellValue = string | number | Decimal | undefined;
+
+/**
+ * Column definition shared by the CSV and table formatters
+ */
+export interface Column<T> {
+  header: string;
+  value: (row: T) => CellValue;
+  /** Fraction digits for numbers in the table format (CSV keeps full precision, exact for decimals) */
+  decimals?: number;
+  /** Aggregate for the totals row; columns without it are left empty */
+  total?: (rows: T[]) => CellValue;
+}
+
+/**
+ * Build the totals row cells: the label goes in the first column unless it has its own total
+ */
+export function buildTotalsRow<T>(columns: Column<T>[], rows: T[], label: string): CellValue[] {
+  return columns.map((column, index) => column.total?.(rows) ?? (index === 0 ? label : undefined));
+}
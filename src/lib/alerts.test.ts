@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { createPosition } from "../testing/fixtures";
+import type { Position } from "../types";
+import { Decimal } from "../utils";
+import { AlertEngine, parseAlertConfig } from "./alerts";
+
+const d = Decimal.parse;
+
+const CUSTODY_SOL = "7xS2gz2bTp3fwCC7knJvUWTEU9Tycczu6VhJYKgi1wdz";
+
+// Three Jupiter positions in the SOL custody, each in its own position account
+const jupiterSol = (direction: Position["direction"], accountAddress: string, pnl: string) =>
+  createPosition("jupiter", "SOL", direction, {
+    accountAddress,
+    protocolMarketId: CUSTODY_SOL,
+    sizeUsd: d("1000"),
+    pnl: d(pnl),
+  });
+
+const SOL_LONG = jupiterSol("LONG", "long-account", "-150");
+const SOL_SHORT_USDC = jupiterSol("SHORT", "short-usdc-account", "-200");
+const SOL_SHORT_USDT = jupiterSol("SHORT", "short-usdt-account", "40");
+
+const T0 = new Date("2026-01-01T00:00:00Z");
+const T1 = new Date("2026-01-01T00:01:00Z");
+
+describe("AlertEngine", () => {
+  test("evaluates every position of a custody separately", () => {
+    const engine = new AlertEngine(
+      parseAlertConfig({ rules: [{ id: "loss", type: "pnl_below", threshold: -100 }], cooldownSeconds: 0 }),
+    );
+
+    const alerts = engine.evaluate([SOL_LONG, SOL_SHORT_USDC, SOL_SHORT_USDT], T0);
+    expect(alerts.map((alert) => alert.position.accountAddress)).toEqual(["long-account", "short-usdc-account"]);
+    expect(new Set(alerts.map((alert) => alert.key)).size).toBe(2);
+  });
+
+  test("reports opened and closed positions by account", () => {
+    const engine = new AlertEngine(
+      parseAlertConfig({ rules: [{ type: "position_opened" }, { type: "position_closed" }], cooldownSeconds: 0 }),
+    );
+
+    expect(engine.evaluate([SOL_LONG, SOL_SHORT_USDC], T0)).toEqual([]);
+    const alerts = engine.evaluate([SOL_LONG, SOL_SHORT_USDT], T1);
+    expect(alerts.map((alert) => [alert.type, alert.position.accountAddress])).toEqual([
+      ["position_opened", "short-usdt-account"],
+      ["position_closed", "short-usdc-account"],
+    ]);
+  });
+
+  test("alerts once while a condition holds and again after the cooldown", () => {
+    const engine = new AlertEngine(
+      parseAlertConfig({ rules: [{ type: "pnl_below", threshold: -100 }], cooldownSeconds: 300 }),
+    );
+
+    expect(engine.evaluate([SOL_LONG], T0)).toHaveLength(1);
+    expect(engine.evaluate([SOL_LONG], T1)).toHaveLength(0);
+    // Cleared, then back within the cooldown
+    expect(engine.evaluate([], new Date("2026-01-01T00:02:00Z"))).toHaveLength(0);
+    expect(engine.evaluate([SOL_LONG], new Date("2026-01-01T00:02:30Z"))).toHaveLength(0);
+    expect(engine.evaluate([], new Date("2026-01-01T00:03:00Z"))).toHaveLength(0);
+    expect(engine.evaluate([SOL_LONG], new Date("2026-01-01T00:05:00Z"))).toHaveLength(1);
+  });
+});
+
+describe("parseAlertConfig", () => {
+  test("names the first invalid field", () => {
+    expect(() => parseAlertConfig({ rules: [{ type: "pnl_below" }] })).toThrow("rules[0].threshold must be a number");
+    expect(() => parseAlertConfig({ rules: [], webhooks: ["not a url"] })).toThrow("webhooks[0].url must be a URL");
+  });
+});
@@ -0,0 +1,249 @@
+import { readFile } from "node:fs/promises";
+import type { Alert, AlertConfig, AlertRule, AlertRuleType, Position, WebhookConfig } from "../types";
+import { Decimal, isValidPublicKey, logger } from "../utils";
+
+/**
+ * Alert rules engine
+ * Rules are evaluated on every fetch cycle. A condition alerts once when it becomes true and stays quiet while it
+ * holds; it can alert again after it has cleared and the cooldown of its key has elapsed.
+ */
+
+/** Alert defaults */
+const ALERT_DEFAULTS = {
+  COOLDOWN_SECONDS: 900,
+} as const;
+
+const RULE_TYPES: AlertRuleType[] = ["pnl_below", "leverage_above", "price_move", "position_opened", "position_closed"];
+
+/**
+ * Load and validate an alert configuration file
+ * @throws Error if the file cannot be read or is not a valid configuration
+ */
+export async function loadAlertConfig(path: string): Promise<AlertConfig> {
+  const text = await readFile(path, "utf8");
+  try {
+    return parseAlertConfig(JSON.parse(text));
+  } catch (error) {
+    throw new Error(`Invalid alert config ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Validate a parsed alert configuration
+ * @throws Error naming the first invalid field
+ */
+export function parseAlertConfig(raw: unknown): AlertConfig {
+  if (!isRecord(raw)) {
+    throw new Error("expected an object");
+  }
+  if (!Array.isArray(raw.rules)) {
+    throw new Error("rules must be an array");
+  }
+
+  const webhooks = raw.webhooks ?? [];
+  if (!Array.isArray(webhooks)) {
+    throw new Error("webhooks must be an array");
+  }
+
+  const cooldownSeconds = raw.cooldownSeconds ?? ALERT_DEFAULTS.COOLDOWN_SECONDS;
+  if (typeof cooldownSeconds !== "number" || cooldownSeconds < 0) {
+    throw new Error("cooldownSeconds must be a non-negative number");
+  }
+
+  return {
+    rules: raw.rules.map((rule, index) => parseRule(rule, index)),
+    webhooks: webhooks.map((webhook, index) => parseWebhook(webhook, index)),
+    cooldownSeconds,
+  };
+}
+
+/**
+ * Stateful rule evaluation across fetch cycles
+ */
+export class AlertEngine {
+  /** Positions of the previous cycle keyed by position identity; undefined before the first cycle */
+  private previousPositions?: Map<string, Position>;
+  /** Alert keys that have been sent and whose condition still holds */
+  private readonly activeKeys = new Set<string>();
+  private readonly lastSentAt = new Map<string, number>();
+
+  constructor(private readonly config: AlertConfig) {}
+
+  /**
+   * Evaluate every rule against one fetch cycle
+   * The first cycle only records the baseline for position_opened / position_closed
+   * @param positions Current positions of every watched wallet
+   * @returns Alerts to deliver
+   */
+  evaluate(positions: Position[], now: Date = new Date()): Alert[] {
+    const currentPositions = new Map(positions.map((position) => [getPositionKey(position), position]));
+    const triggered = this.config.rules.flatMap((rule) => this.evaluateRule(rule, currentPositions, now));
+    this.previousPositions = currentPositions;
+
+    const triggeredKeys = new Set(triggered.map((alert) => alert.key));
+    for (const key of this.activeKeys) {
+      if (!triggeredKeys.has(key)) {
+        this.activeKeys.delete(key);
+      }
+    }
+
+    const cooldownMs = this.config.cooldownSeconds * 1000;
+    return triggered.filter((alert) => {
+      if (this.activeKeys.has(alert.key)) return false;
+
+      const lastSentAt = this.lastSentAt.get(alert.key);
+      if (lastSentAt !== undefined && now.getTime() - lastSentAt < cooldownMs) {
+        logger.debug(`🔕 Alert in cooldown: ${alert.key}`);
+        return false;
+      }
+
+      this.activeKeys.add(alert.key);
+      this.lastSentAt.set(alert.key, now.getTime());
+      return true;
+    });
+  }
+
+  private evaluateRule(rule: AlertRule, currentPositions: Map<string, Position>, now: Date): Alert[] {
+    const createAlert = (position: Position, positionKey: string, message: string): Alert => ({
+      ruleId: rule.id,
+      type: rule.type,
+      key: `${rule.id}|${positionKey}`,
+      message,
+      position,
+      triggeredAt: now.toISOString(),
+    });
+
+    if (rule.type === "position_opened" || rule.type === "position_closed") {
+      const previousPositions = this.previousPositions;
+      if (!previousPositions) return [];
+
+      const [from, against] =
+        rule.type === "position_opened" ? [currentPositions, previousPositions] : [previousPositions, currentPositions];
+      const verb = rule.type === "position_opened" ? "opened" : "closed";
+      return [...from.entries()]
+        .filter(([key, position]) => !against.has(key) && matchesFilter(rule, position))
+        .map(([key, position]) => createAlert(position, key, `${describePosition(position)} ${verb}`));
+    }
+
+    return [...currentPositions.entries()].flatMap(([key, position]) => {
+      if (!matchesFilter(rule, position)) return [];
+      const message = checkCondition(rule, position);
+      return message ? [createAlert(position, key, `${describePosition(position)}: ${message}`)] : [];
+    });
+  }
+}
+
+/**
+ * Check a threshold rule against one position
+ * @returns Alert message, or undefined when the condition does not hold
+ */
+function checkCondition(rule: AlertRule, position: Position): string | undefined {
+  switch (rule.type) {
+    case "pnl_below":
+      return position.pnl.lt(Decimal.fromNumber(rule.threshold))
+        ? `PnL $${position.pnl.toFixed(2)} below $${rule.threshold.toFixed(2)}`
+        : undefined;
+    case "leverage_above":
+      return position.leverage > rule.threshold
+        ? `leverage ${position.leverage.toFixed(2)}x above ${rule.threshold}x`
+        : undefined;
+    case "price_move": {
+      if (!position.entryPrice.isPositive()) return undefined;
+      const movePercent = position.markPrice.sub(position.entryPrice).div(position.entryPrice).toNumber() * 100;
+      return Math.abs(movePercent) >= rule.percent
+        ? `mark $${position.markPrice.toFixed(4)} moved ${movePercent.toFixed(2)}% from entry $${position.entryPrice.toFixed(4)}`
+        : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Identity of a position across cycles
+ * Jupiter holds each position in its own account, so same-custody longs and shorts stay apart; a Drift user account
+ * holds one position per market, identified by market index and sub-account
+ */
+function getPositionKey(position: Position): string {
+  return [
+    position.owner,
+    position.protocol,
+    position.accountAddress,
+    position.protocolMarketId,
+    position.subAccountId ?? 0,
+  ].join(":");
+}
+
+function describePosition(position: Position): string {
+  return `${position.symbol} ${position.direction} $${position.sizeUsd.toFixed(2)} (${position.protocol}, ${position.owner})`;
+}
+
+function matchesFilter(rule: AlertRule, position: Position): boolean {
+  return (
+    (rule.owner === undefined || rule.owner === position.owner) &&
+    (rule.protocol === undefined || rule.protocol === position.protocol) &&
+    (rule.symbol === undefined || rule.symbol.toUpperCase() === position.symbol.toUpperCase())
+  );
+}
+
+function parseRule(raw: unknown, index: number): AlertRule {
+  const field = (name: string) => `rules[${index}].${name}`;
+  if (!isRecord(raw)) {
+    throw new Error(`rules[${index}] must be an object`);
+  }
+
+  const type = raw.type;
+  if (!RULE_TYPES.includes(type as AlertRuleType)) {
+    throw new Error(`${field("type")} must be one of ${RULE_TYPES.join(", ")}`);
+  }
+
+  const filter = {
+    id: optionalString(raw.id, field("id")) ?? `${type}#${index}`,
+    owner: optionalString(raw.owner, field("owner")),
+    protocol: optionalString(raw.protocol, field("protocol")),
+    symbol: optionalString(raw.symbol, field("symbol")),
+  };
+  if (filter.owner !== undefined && !isValidPublicKey(filter.owner)) {
+    throw new Error(`${field("owner")} is not a valid wallet address`);
+  }
+
+  switch (type as AlertRuleType) {
+    case "pnl_below":
+      return { ...filter, type: "pnl_below", threshold: requireNumber(raw.threshold, field("threshold")) };
+    case "leverage_above":
+      return { ...filter, type: "leverage_above", threshold: requireNumber(raw.threshold, field("threshold")) };
+    case "price_move":
+      return { ...filter, type: "price_move", percent: requireNumber(raw.percent, field("percent")) };
+    case "position_opened":
+      return { ...filter, type: "position_opened" };
+    case "position_closed":
+      return { ...filter, type: "position_closed" };
+  }
+}
+
+function parseWebhook(raw: unknown, index: number): WebhookConfig {
+  const url = isRecord(raw) ? raw.url : raw;
+  if (typeof url !== "string" || !URL.canParse(url)) {
+    throw new Error(`webhooks[${index}].url must be a URL`);
+  }
+  return { url };
+}
+
+function optionalString(value: unknown, name: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string") {
+    throw new Error(`${name} must be a string`);
+  }
+  return value;
+}
+
+function requireNumber(value: unknown, name: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`${name} must be a number`);
+  }
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { DriftClient, User } from "@drift-labs/sdk";
+import { createRpcConnection } from "../constants";
+import { subscribeDriftClient, subscribeDriftUser } from "../testing/drift";
+import { TEST_OWNER } from "../testing/fixtures";
+import { FIXTURE_RPC_URL, useFixtureHttp } from "../testing/replay";
+import { UnsupportedMarketError, validatePosition } from "../utils";
+import { collectUserPositions, processPosition, processSpotBalance } from "./drift";
+
+// Replayed SOL-PERP, USDC and SOL spot markets with their oracles: SOL at 178.419831, USDC at par
+useFixtureHttp();
+
+let driftClient: DriftClient;
+
+beforeAll(async () => {
+  driftClient = await subscribeDriftClient(createRpcConnection(FIXTURE_RPC_URL));
+});
+
+afterAll(() => driftClient.unsubscribe());
+
+/** Run a test against a subscribed sub-account of TEST_OWNER */
+async function withUser<T>(subAccountId: number, run: (user: User) => Promise<T>): Promise<T> {
+  const user = await subscribeDriftUser(driftClient, TEST_OWNER, subAccountId);
+  try {
+    return await run(user);
+  } finally {
+    await user.unsubscribe();
+  }
+}
+
+describe("collectUserPositions (replayed accounts)", () => {
+  test("long position with PnL, funding, leverage and liquidation price", async () => {
+    const { positions, errors } = await withUser(0, (user) => collectUserPositions(driftClient, user));
+    const [sol] = positions;
+
+    expect(errors).toEqual([]);
+    // JSON form: Decimal amounts serialize as numbers
+    expect(JSON.parse(JSON.stringify(sol))).toMatchObject({
+      schemaVersion: 2,
+      protocol: "drift",
+      owner: TEST_OWNER,
+      accountAddress: "8sxAPzoCuBP7cp3aEEXDcE7eS8Q2HgM9MTEz5HodxSb5",
+      symbol: "SOL",
+      direction: "LONG",
+      baseAmount: 25,
+      entryPrice: 176.515,
+      markPrice: 178.419831,
+      markPriceSource: "oracle",
+      leverage: 2.86,
+      protocolMarketId: "0",
+      subAccountId: 0,
+    });
+    // 25 * 178.419831 less the 4415.998204 quote amount, with 2.183073 of unsettled funding paid
+    expect(sol?.pnl.toString()).toBe("42.314498");
+    expect(sol?.sizeUsd.toString()).toBe("4460.495775");
+    expect(sol?.funding?.unsettledPnl.toString()).toBe("-2.183073");
+    expect(sol?.funding?.settledPnlWithFees.toString()).toBe("-3.531062");
+    expect(sol?.funding?.lastHourlyRatePercent).toBeCloseTo(-0.00105, 5);
+    expect(sol?.liquidationPrice?.toString()).toBe("119.661485");
+    expect(sol?.liquidationDistancePercent).toBeCloseTo(32.93, 2);
+    expect(validatePosition(sol)).toEqual([]);
+
+    // Equity is the USDC deposit plus the perp PnL; maintenance margin is 3% of the notional
+    expect(sol?.accountMargin?.health).toBe(91);
+    expect(sol?.accountMargin?.netAssetValue.toString()).toBe("1558.70477");
+    expect(sol?.accountMargin?.maintenanceMarginRequirement.toString()).toBe("133.814873");
+  });
+
+  test("deposit with accrued interest and market rates", async () => {
+    const { spotBalances } = await withUser(0, (user) => collectUserPositions(driftClient, user));
+    const [usdc] = spotBalances ?? [];
+
+    expect(usdc).toMatchObject({ symbol: "USDC", side: "DEPOSIT", protocolMarketId: "0", subAccountId: 0 });
+    expect([usdc?.tokenAmount, usdc?.usdValue, usdc?.price].map(String)).toEqual(["1516.390272", "1516.390272", "1"]);
+    expect(usdc?.depositAprPercent).toBeCloseTo(7.3858, 4);
+    expect(usdc?.borrowAprPercent).toBeCloseTo(10.7636, 4);
+  });
+
+  test("short position, collateral deposit and borrow of a margin sub-account", async () => {
+    const { positions, spotBalances } = await withUser(1, (user) => collectUserPositions(driftClient, user));
+    const [sol] = positions;
+
+    expect(sol).toMatchObject({ direction: "SHORT", subAccountId: 1 });
+    expect([sol?.baseAmount, sol?.entryPrice, sol?.pnl].map(String)).toEqual(["12.5", "179.889", "15.817835"]);
+    expect(sol?.funding?.unsettledPnl.toString()).toBe("-0.96589");
+    // The SOL deposit more than covers the short, so no price move liquidates it
+    expect(sol?.liquidationPrice).toBeUndefined();
+
+    expect(spotBalances?.map((balance) => [balance.symbol, balance.side, balance.tokenAmount.toString()])).toEqual([
+      ["SOL", "DEPOSIT", "42.17990328"],
+      ["USDC", "BORROW", "2150.024961"],
+    ]);
+    expect(spotBalances?.[0]?.price.toString()).toBe("178.419831");
+  });
+});
+
+describe("unknown markets", () => {
+  test("raise UnsupportedMarketError", async () => {
+    await withUser(0, async (user) => {
+      const [perpPosition] = user.getUserAccount().perpPositions;
+      const [spotPosition] = user.getUserAccount().spotPositions;
+      const { accountMargin } = (await collectUserPositions(driftClient, user)).positions[0] ?? {};
+      if (!perpPosition || !spotPosition || !accountMargin) throw new Error("fixture user has no positions");
+
+      await expect(
+        processPosition({ ...perpPosition, marketIndex: 9999 }, driftClient, user, accountMargin),
+      ).rejects.toBeInstanceOf(UnsupportedMarketError);
+      await expect(
+        processSpotBalance({ ...spotPosition, marketIndex: 9999 }, driftClient, user, accountMargin),
+      ).rejects.toBeInstanceOf(UnsupportedMarketError);
+    });
+  });
+});
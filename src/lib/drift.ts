@@ -2,87 +2,347 @@ import * as anchor from "@coral-xyz/anchor";
 import {
   BASE_PRECISION,
   BN,
+  calculateBorrowRate,
+  calculateDepositRate,
   calculateEntryPrice,
+  calculateFeesAndFundingPnl,
+  calculateFormattedLiveFundingRate,
   calculatePositionPNL,
+  calculateUnsettledFundingPnl,
   convertToNumber,
   DriftClient,
+  FUNDING_RATE_PRECISION,
+  fetchUserStatsAccount,
+  getTokenAmount,
   getUserAccountPublicKey,
   initialize,
   isEmptyPosition,
+  isVariant,
+  type OraclePriceData,
+  type PerpMarketAccount,
   PerpMarkets,
   type PerpPosition,
+  PRICE_PRECISION,
+  PRICE_PRECISION_EXP,
   QUOTE_PRECISION,
+  SPOT_MARKET_RATE_PRECISION,
+  SpotMarkets,
+  type SpotPosition,
+  TEN_THOUSAND,
   User,
   Wallet,
 } from "@drift-labs/sdk";
-import { Connection, PublicKey } from "@solana/web3.js";
-import { RPC_URL } from "../constants";
-import type { Position } from "../types";
-import { getErrorDetails, logger } from "../utils";
+import { PublicKey } from "@solana/web3.js";
+import { createRpcConnection, getNetworkProfile, type NetworkId } from "../constants";
+import type {
+  AccountMargin,
+  FetchPositionsOptions,
+  MarketInfo,
+  PerpProtocolAdapter,
+  Position,
+  PositionFetchResult,
+  PositionFunding,
+  PositionListener,
+  PositionSubscription,
+  SpotBalance,
+} from "../types";
+import {
+  AccountNotFoundError,
+  calculateLiquidationDistancePercent,
+  Decimal,
+  getErrorDetails,
+  logger,
+  mergeFetchResults,
+  POSITION_SCHEMA_VERSION,
+  PriceUnavailableError,
+  toFetchIssue,
+  UnsupportedMarketError,
+} from "../utils";
+import { registerAdapter } from "./registry";
+
+/** Adapter id */
+const PROTOCOL_ID = "drift";
+
+/** Watch mode configuration */
+const WATCH_CONFIG = {
+  /** Resubscribe a websocket account subscription when it has been silent this long */
+  RESUB_TIMEOUT_MS: 60_000,
+} as const;
+
+/** Accounts a position was built from, kept for repricing it at another oracle price */
+interface PositionAccounts {
+  perpPosition: PerpPosition;
+  marketAccount: PerpMarketAccount;
+  oracleData: OraclePriceData;
+}
+
+/** Accounts of the positions returned by this adapter; entries go away with their positions */
+const positionAccounts = new WeakMap<Position, PositionAccounts>();
 
 /**
  * Get user positions from Drift protocol
+ * Perp positions and spot balances from every sub-account of the authority are returned unless an explicit list is given
+ * A wallet without a Drift account, or a requested sub-account that does not exist, is reported as a warning
+ * @param network Network profile selecting the Drift environment (default: DEFAULT_NETWORK)
+ * @throws PositionFetchError subclass when the RPC or a sub-account cannot be read
  */
-export async function getDriftPositions(userAddress: string, rpcUrl: string = RPC_URL): Promise<Position[]> {
+export async function getDriftPositions(
+  userAddress: string,
+  rpcUrl?: string,
+  subAccountIds?: number[],
+  network?: NetworkId,
+): Promise<PositionFetchResult> {
   logger.info(`🎯 Starting position fetch for: ${userAddress}`);
 
   // Initialize connection and client
-  const driftClient = await initializeClient(rpcUrl);
-  const user = await createUser(driftClient, userAddress);
+  const driftClient = await initializeClient(rpcUrl, network);
+  const authority = new PublicKey(userAddress);
 
-  // Check account existence
-  if (!(await user.exists())) {
-    logger.info(`⚠️ No Drift account found for address: ${userAddress}`);
-    return [];
+  try {
+    const targetSubAccountIds = subAccountIds ?? (await discoverSubAccountIds(driftClient, authority));
+
+    if (targetSubAccountIds.length === 0) {
+      logger.info(`⚠️ No Drift account found for address: ${userAddress}`);
+      const warning = new AccountNotFoundError(`No Drift account for ${userAddress}`, { subject: userAddress });
+      return { positions: [], warnings: [warning.toIssue()], errors: [] };
+    }
+
+    logger.info(`🗂️ Checking Drift sub-accounts: ${targetSubAccountIds.join(", ")}`);
+
+    const results: PositionFetchResult[] = [];
+    for (const subAccountId of targetSubAccountIds) {
+      try {
+        results.push(await getSubAccountPositions(driftClient, authority, subAccountId));
+      } catch (error) {
+        if (!(error instanceof AccountNotFoundError)) throw error;
+        results.push({ positions: [], warnings: [error.toIssue()], errors: [] });
+      }
+    }
+
+    return mergeFetchResults(results);
+  } finally {
+    await cleanup(undefined, driftClient);
   }
+}
 
-  try {
-    // Get user data
-    await user.subscribe();
-    const userAccount = user.getUserAccount();
-    const positions = userAccount.perpPositions.filter((pos: PerpPosition) => !isEmptyPosition(pos));
+/**
+ * Watch user positions from Drift protocol
+ * Users stay subscribed over websocket; every user account update and every refresh() emits the full position set
+ * The SDK resubscribes accounts that stay silent longer than RESUB_TIMEOUT_MS, which covers dropped websockets
+ */
+export async function watchDriftPositions(
+  userAddress: string,
+  onUpdate: PositionListener,
+  rpcUrl?: string,
+  subAccountIds?: number[],
+  network?: NetworkId,
+): Promise<PositionSubscription> {
+  logger.info(`👀 Starting Drift position watch for: ${userAddress}`);
 
-    logger.info(`✅ Found ${positions.length} positions`);
+  const driftClient = await initializeClient(rpcUrl, network, WATCH_CONFIG.RESUB_TIMEOUT_MS);
+  const authority = new PublicKey(userAddress);
+  const users: User[] = [];
 
-    if (positions.length === 0) {
-      return [];
+  const close = async () => {
+    for (const user of users) {
+      await cleanup(user);
     }
+    await cleanup(undefined, driftClient);
+  };
 
-    const results = await Promise.allSettled(positions.map((position) => processPosition(position, driftClient)));
+  try {
+    const targetSubAccountIds = subAccountIds ?? (await discoverSubAccountIds(driftClient, authority));
+    for (const subAccountId of targetSubAccountIds) {
+      const user = await createUser(driftClient, authority, subAccountId, WATCH_CONFIG.RESUB_TIMEOUT_MS);
+      if (!(await user.exists())) continue;
 
-    logger.info(`🎉 Successfully processed ${results.length} positions`);
-    return results.reduce((acc, result) => {
-      if (result.status === "fulfilled" && result.value !== null) {
-        acc.push(result.value);
-      }
-      return acc;
-    }, [] as Position[]);
+      await user.subscribe();
+      users.push(user);
+    }
+  } catch (error) {
+    await close();
+    throw error;
+  }
+
+  const refresh = async () => {
+    const results = await Promise.all(users.map((user) => collectUserPositions(driftClient, user)));
+    const { positions, spotBalances } = mergeFetchResults(results);
+    onUpdate(positions, spotBalances);
+  };
+
+  for (const user of users) {
+    user.eventEmitter.on("userAccountUpdate", () => {
+      refresh().catch((error) => logger.error(`❌ Drift refresh failed: ${getErrorDetails(error).message}`));
+    });
+  }
+
+  await refresh();
+  return { refresh, close };
+}
+
+/**
+ * Drift protocol adapter
+ */
+export const driftAdapter: PerpProtocolAdapter = {
+  id: PROTOCOL_ID,
+  displayName: "Drift Protocol",
+  capabilities: {
+    subAccounts: true,
+    crossMargin: true,
+    liquidationPrice: true,
+    feesInPnl: false,
+    funding: true,
+  },
+  fetchPositions: (owner, options?: FetchPositionsOptions) =>
+    getDriftPositions(owner, options?.rpcUrl, options?.subAccountIds, options?.network),
+  watchPositions: (owner, onUpdate, options?: FetchPositionsOptions) =>
+    watchDriftPositions(owner, onUpdate, options?.rpcUrl, options?.subAccountIds, options?.network),
+  calculatePnlAtPrice: calculateDriftPnlAtPrice,
+  listMarkets: async (options?: FetchPositionsOptions): Promise<MarketInfo[]> =>
+    PerpMarkets[getNetworkProfile(options?.network).driftEnv].map((market) => ({
+      symbol: market.baseAssetSymbol,
+      protocolMarketId: String(market.marketIndex),
+    })),
+};
+
+registerAdapter(driftAdapter);
+
+/**
+ * Discover sub-account ids created by the authority from its UserStats account
+ * Ids of deleted sub-accounts are skipped
+ */
+async function discoverSubAccountIds(driftClient: DriftClient, authority: PublicKey): Promise<number[]> {
+  const userStats = await fetchUserStatsAccount(driftClient.connection, driftClient.program, authority);
+  if (!userStats) {
+    return [];
+  }
+
+  const candidateIds = Array.from({ length: userStats.numberOfSubAccountsCreated }, (_, id) => id);
+  const existence = await Promise.all(
+    candidateIds.map(async (subAccountId) => {
+      const userAccountPubkey = await getUserAccountPublicKey(driftClient.program.programId, authority, subAccountId);
+      return (await driftClient.connection.getAccountInfo(userAccountPubkey)) !== null;
+    }),
+  );
+
+  return candidateIds.filter((_, index) => existence[index]);
+}
+
+/**
+ * Get positions of a single sub-account
+ * @throws AccountNotFoundError if the sub-account does not exist
+ */
+async function getSubAccountPositions(
+  driftClient: DriftClient,
+  authority: PublicKey,
+  subAccountId: number,
+): Promise<PositionFetchResult> {
+  const user = await createUser(driftClient, authority, subAccountId);
+
+  // Check account existence
+  if (!(await user.exists())) {
+    logger.info(`⚠️ No Drift sub-account ${subAccountId} found for address: ${authority.toBase58()}`);
+    throw new AccountNotFoundError(`No Drift sub-account ${subAccountId} for ${authority.toBase58()}`, {
+      subject: user.userAccountPublicKey.toBase58(),
+    });
+  }
+
+  try {
+    // Get user data
+    await user.subscribe();
+    return await collectUserPositions(driftClient, user);
   } catch (error) {
     const details = getErrorDetails(error);
-    logger.error(`❌ Error: ${details.message}`);
+    logger.error(`❌ Error (sub-account ${subAccountId}): ${details.message}`);
     throw error;
   } finally {
-    await cleanup(user, driftClient);
+    await cleanup(user);
+  }
+}
+
+/**
+ * Build positions and spot balances from a subscribed user
+ * Positions and balances that cannot be processed are reported as errors
+ */
+export async function collectUserPositions(driftClient: DriftClient, user: User): Promise<PositionFetchResult> {
+  const userAccount = user.getUserAccount();
+  const subAccountId = userAccount.subAccountId;
+  const positions = userAccount.perpPositions.filter((pos: PerpPosition) => !isEmptyPosition(pos));
+  const spotPositions = userAccount.spotPositions.filter((pos: SpotPosition) => !pos.scaledBalance.isZero());
+
+  logger.info(
+    `✅ Found ${positions.length} positions and ${spotPositions.length} spot balances in sub-account ${subAccountId}`,
+  );
+
+  if (positions.length === 0 && spotPositions.length === 0) {
+    return { positions: [], spotBalances: [], warnings: [], errors: [] };
   }
+
+  const accountMargin = getAccountMargin(user);
+  logger.debug(
+    `🩺 Sub-account ${subAccountId} health: ${accountMargin.health}%, ` +
+      `Equity: $${accountMargin.netAssetValue.toFixed(2)}, ` +
+      `Free collateral: $${accountMargin.freeCollateral.toFixed(2)}, ` +
+      `Maintenance margin: $${accountMargin.maintenanceMarginRequirement.toFixed(2)}`,
+  );
+
+  const [results, spotResults] = await Promise.all([
+    Promise.allSettled(positions.map((position) => processPosition(position, driftClient, user, accountMargin))),
+    Promise.allSettled(spotPositions.map((position) => processSpotBalance(position, driftClient, user, accountMargin))),
+  ]);
+
+  const result: PositionFetchResult = { positions: [], spotBalances: [], warnings: [], errors: [] };
+  results.forEach((settled, index) => {
+    if (settled.status === "fulfilled") {
+      result.positions.push(settled.value);
+    } else {
+      const details = getErrorDetails(settled.reason);
+      logger.error(`❌ Position processing error (market: ${positions[index]?.marketIndex}): ${details.message}`);
+      result.errors.push(toFetchIssue(settled.reason));
+    }
+  });
+  spotResults.forEach((settled, index) => {
+    if (settled.status === "fulfilled") {
+      result.spotBalances?.push(settled.value);
+    } else {
+      const details = getErrorDetails(settled.reason);
+      logger.error(
+        `❌ Spot balance processing error (market: ${spotPositions[index]?.marketIndex}): ${details.message}`,
+      );
+      result.errors.push(toFetchIssue(settled.reason));
+    }
+  });
+
+  logger.info(
+    `🎉 Successfully processed ${result.positions.length}/${results.length} positions and ` +
+      `${result.spotBalances?.length}/${spotResults.length} spot balances`,
+  );
+  return result;
 }
 
 /**
- * Initialize Drift client
+ * Initialize Drift client on the shared RPC endpoint pool
+ * @param rpcUrl Endpoint or comma-separated endpoints (default: the network's endpoints)
+ * @param network Network profile selecting the Drift environment (default: DEFAULT_NETWORK)
+ * @param resubTimeoutMs Resubscribe market and oracle accounts silent for this long (long-running clients only)
  */
-async function initializeClient(rpcUrl: string): Promise<DriftClient> {
-  logger.debug(`🚀 Initializing client: ${rpcUrl}`);
+async function initializeClient(rpcUrl?: string, network?: NetworkId, resubTimeoutMs?: number): Promise<DriftClient> {
+  const { driftEnv } = getNetworkProfile(network);
+  const connection = createRpcConnection(rpcUrl, network);
+  logger.debug(`🚀 Initializing client: ${new URL(connection.rpcEndpoint).host}`);
 
-  const connection = new Connection(rpcUrl, "confirmed");
   const version = await connection.getVersion();
   logger.debug(`✅ RPC connection successful: ${version["solana-core"]}`);
 
-  const config = initialize({ env: "mainnet-beta" });
+  const config = initialize({ env: driftEnv });
   const wallet = new Wallet(anchor.web3.Keypair.generate());
 
   const client = new DriftClient({
     connection,
     wallet,
     programID: new PublicKey(config.DRIFT_PROGRAM_ID),
+    env: driftEnv,
+    accountSubscription: { type: "websocket", resubTimeoutMs },
   });
 
   await client.subscribe();
@@ -93,77 +353,286 @@ async function initializeClient(rpcUrl: string): Promise<DriftClient> {
 /**
  * Create user instance
  */
-async function createUser(driftClient: DriftClient, userAddress: string): Promise<User> {
-  const userPubkey = new PublicKey(userAddress);
-  const userAccountPubkey = await getUserAccountPublicKey(driftClient.program.programId, userPubkey, 0);
+async function createUser(
+  driftClient: DriftClient,
+  authority: PublicKey,
+  subAccountId: number,
+  resubTimeoutMs?: number,
+): Promise<User> {
+  const userAccountPubkey = await getUserAccountPublicKey(driftClient.program.programId, authority, subAccountId);
 
   return new User({
     driftClient,
     userAccountPublicKey: userAccountPubkey,
-    accountSubscription: { type: "websocket" },
+    accountSubscription: { type: "websocket", resubTimeoutMs },
   });
 }
 
+/**
+ * Get account-level margin figures from the subscribed user
+ */
+function getAccountMargin(user: User): AccountMargin {
+  const { perpPnl, spotAssetValue, spotLiabilityValue } = user.getLeverageComponents();
+
+  return {
+    health: user.getHealth(),
+    netAssetValue: Decimal.fromPrecision(spotAssetValue.add(perpPnl).sub(spotLiabilityValue), QUOTE_PRECISION),
+    totalCollateral: Decimal.fromPrecision(user.getTotalCollateral("Maintenance"), QUOTE_PRECISION),
+    maintenanceMarginRequirement: Decimal.fromPrecision(user.getMaintenanceMarginRequirement(), QUOTE_PRECISION),
+    initialMarginRequirement: Decimal.fromPrecision(user.getInitialMarginRequirement(), QUOTE_PRECISION),
+    freeCollateral: Decimal.fromPrecision(user.getFreeCollateral("Initial"), QUOTE_PRECISION),
+    leverage: convertToNumber(user.getLeverage(), TEN_THOUSAND),
+  };
+}
+
 /**
  * Process single position
+ * @throws UnsupportedMarketError for a market missing from the SDK market list of the client's environment
+ * @throws AccountNotFoundError when the market account is not loaded
+ * @throws PriceUnavailableError when the market oracle has no price
  */
-async function processPosition(position: PerpPosition, driftClient: DriftClient): Promise<Position | null> {
-  try {
-    const marketIndex = position.marketIndex;
-    logger.debug(`🔍 Processing market ${marketIndex}`);
-
-    // Get market information
-    const marketInfo = PerpMarkets["mainnet-beta"].find((m) => m.marketIndex === marketIndex);
-    if (!marketInfo) {
-      logger.warn(`⚠️ Market info not found: ${marketIndex}`);
-      return null;
-    }
+export async function processPosition(
+  position: PerpPosition,
+  driftClient: DriftClient,
+  user: User,
+  accountMargin: AccountMargin,
+): Promise<Position> {
+  const marketIndex = position.marketIndex;
+  logger.debug(`🔍 Processing market ${marketIndex}`);
 
-    // Get price and account information
-    const marketAccount = driftClient.getPerpMarketAccount(marketIndex);
-    const oracleData = driftClient.getOracleDataForPerpMarket(marketIndex);
+  // Get market information
+  const marketInfo = PerpMarkets[driftClient.env].find((m) => m.marketIndex === marketIndex);
+  if (!marketInfo) {
+    logger.warn(`⚠️ Market info not found: ${marketIndex}`);
+    throw new UnsupportedMarketError(`Unknown Drift perp market ${marketIndex}`, { subject: String(marketIndex) });
+  }
 
-    if (!marketAccount) {
-      logger.warn(`⚠️ Market account not found: ${marketIndex}`);
-      return null;
-    }
+  // Get price and account information
+  const marketAccount = driftClient.getPerpMarketAccount(marketIndex);
+  const oracleData = driftClient.getOracleDataForPerpMarket(marketIndex);
 
-    // Calculate position metrics
-    const baseAmount = convertToNumber(position.baseAssetAmount, BASE_PRECISION);
-    const quoteAmount = convertToNumber(position.quoteAssetAmount, QUOTE_PRECISION);
-    const direction = position.baseAssetAmount.gt(new BN(0)) ? "LONG" : "SHORT";
+  if (!marketAccount) {
+    logger.warn(`⚠️ Market account not found: ${marketIndex}`);
+    throw new AccountNotFoundError(`Drift perp market account ${marketIndex} not loaded`, {
+      subject: String(marketIndex),
+    });
+  }
+  if (!oracleData || oracleData.price.lten(0)) {
+    throw new PriceUnavailableError(`No oracle price for ${marketInfo.baseAssetSymbol}-PERP`, {
+      subject: marketInfo.baseAssetSymbol,
+    });
+  }
 
-    const pnl = convertToNumber(calculatePositionPNL(marketAccount, position, false, oracleData), QUOTE_PRECISION);
-    const entryPrice = convertToNumber(calculateEntryPrice(position), QUOTE_PRECISION);
-    const markPrice = convertToNumber(oracleData.price, QUOTE_PRECISION);
+  // Calculate position metrics
+  const baseAmount = Decimal.fromPrecision(position.baseAssetAmount, BASE_PRECISION).abs();
+  const quoteAmount = Decimal.fromPrecision(position.quoteAssetAmount, QUOTE_PRECISION);
+  const direction = position.baseAssetAmount.gt(new BN(0)) ? "LONG" : "SHORT";
 
-    // Calculate position size in USD (notional value)
-    const positionSizeUsd = Math.abs(baseAmount) * markPrice;
+  // Unsettled funding is part of the PnL; positions held for weeks accrue a lot of it
+  const pnl = Decimal.fromPrecision(calculatePositionPNL(marketAccount, position, true, oracleData), QUOTE_PRECISION);
+  const funding = getPositionFunding(driftClient, marketAccount, position, direction);
+  const entryPrice = Decimal.fromPrecision(calculateEntryPrice(position), QUOTE_PRECISION);
+  const markPrice = Decimal.fromPrecision(oracleData.price, QUOTE_PRECISION);
 
-    // Calculate leverage (notional value / margin)
-    const notionalValue = positionSizeUsd;
-    const margin = Math.abs(quoteAmount);
-    const leverage = margin > 0 ? notionalValue / margin : 0;
+  // Calculate position size in USD (notional value)
+  const positionSizeUsd = baseAmount.mul(markPrice);
 
-    logger.debug(
-      `✅ ${marketInfo.baseAssetSymbol}: $${entryPrice} → $${markPrice}, Size: $${positionSizeUsd.toFixed(2)}, PnL: $${pnl}, Leverage: ${leverage.toFixed(2)}x`,
-    );
+  // Calculate leverage against the cross-margin account's net asset value
+  const leverage = accountMargin.netAssetValue.isPositive()
+    ? positionSizeUsd.div(accountMargin.netAssetValue).toNumber()
+    : 0;
+
+  // Liquidation price is -1 when the position cannot be liquidated by price moves alone
+  const liquidationPriceBN = user.liquidationPrice(marketIndex);
+  const liquidationPrice = liquidationPriceBN.isNeg()
+    ? undefined
+    : Decimal.fromPrecision(liquidationPriceBN, PRICE_PRECISION);
+  const liquidationDistancePercent =
+    liquidationPrice !== undefined
+      ? calculateLiquidationDistancePercent(markPrice, liquidationPrice, direction)
+      : undefined;
+
+  logger.debug(
+    `✅ ${marketInfo.baseAssetSymbol}: $${entryPrice} → $${markPrice}, Size: $${positionSizeUsd.toFixed(2)}, ` +
+      `Quote: $${quoteAmount.toFixed(2)}, PnL: $${pnl} (funding $${funding.unsettledPnl}), ` +
+      `Leverage: ${leverage.toFixed(2)}x, ` +
+      `Liq: $${liquidationPrice?.toFixed(2) ?? "n/a"} (${liquidationDistancePercent?.toFixed(2) ?? "n/a"}%)`,
+  );
+
+  const normalized: Position = {
+    schemaVersion: POSITION_SCHEMA_VERSION,
+    protocol: PROTOCOL_ID,
+    owner: user.getUserAccount().authority.toBase58(),
+    accountAddress: user.getUserAccountPublicKey().toBase58(),
+    symbol: marketInfo.baseAssetSymbol,
+    sizeUsd: positionSizeUsd,
+    baseAmount,
+    direction,
+    pnl,
+    entryPrice,
+    markPrice,
+    markPriceSource: "oracle",
+    leverage: Number(leverage.toFixed(2)),
+    liquidationPrice,
+    liquidationDistancePercent,
+    protocolMarketId: String(marketIndex),
+    subAccountId: user.getUserAccount().subAccountId,
+    accountMargin,
+    funding,
+  };
+  positionAccounts.set(normalized, { perpPosition: position, marketAccount, oracleData });
+  return normalized;
+}
+
+/**
+ * Process single spot balance
+ * @throws UnsupportedMarketError for a market missing from the SDK spot market list of the client's environment
+ * @throws AccountNotFoundError when the market account is not loaded
+ * @throws PriceUnavailableError when the market oracle has no price
+ */
+export async function processSpotBalance(
+  position: SpotPosition,
+  driftClient: DriftClient,
+  user: User,
+  accountMargin: AccountMargin,
+): Promise<SpotBalance> {
+  const marketIndex = position.marketIndex;
+  logger.debug(`🔍 Processing spot market ${marketIndex}`);
+
+  const marketInfo = SpotMarkets[driftClient.env].find((m) => m.marketIndex === marketIndex);
+  if (!marketInfo) {
+    logger.warn(`⚠️ Spot market info not found: ${marketIndex}`);
+    throw new UnsupportedMarketError(`Unknown Drift spot market ${marketIndex}`, { subject: String(marketIndex) });
+  }
+
+  const marketAccount = driftClient.getSpotMarketAccount(marketIndex);
+  const oracleData = driftClient.getOracleDataForSpotMarket(marketIndex);
+
+  if (!marketAccount) {
+    logger.warn(`⚠️ Spot market account not found: ${marketIndex}`);
+    throw new AccountNotFoundError(`Drift spot market account ${marketIndex} not loaded`, {
+      subject: String(marketIndex),
+    });
+  }
+  if (!oracleData || oracleData.price.lten(0)) {
+    throw new PriceUnavailableError(`No oracle price for ${marketInfo.symbol}`, { subject: marketInfo.symbol });
+  }
+
+  // Scaled balances grow with the market's cumulative interest; the token amount includes the accrued interest
+  const side = isVariant(position.balanceType, "deposit") ? "DEPOSIT" : "BORROW";
+  const tokenAmount = Decimal.fromUnits(
+    getTokenAmount(position.scaledBalance, marketAccount, position.balanceType),
+    marketAccount.decimals,
+  );
+  const price = Decimal.fromPrecision(oracleData.price, PRICE_PRECISION);
+  const usdValue = tokenAmount.mul(price);
+  const depositAprPercent = getAprPercent(calculateDepositRate(marketAccount));
+  const borrowAprPercent = getAprPercent(calculateBorrowRate(marketAccount));
+
+  logger.debug(
+    `✅ ${marketInfo.symbol} ${side}: ${tokenAmount} @ $${price} = $${usdValue.toFixed(2)}, ` +
+      `APR: ${depositAprPercent.toFixed(2)}% deposit / ${borrowAprPercent.toFixed(2)}% borrow`,
+  );
+
+  return {
+    protocol: PROTOCOL_ID,
+    owner: user.getUserAccount().authority.toBase58(),
+    accountAddress: user.getUserAccountPublicKey().toBase58(),
+    symbol: marketInfo.symbol,
+    side,
+    tokenAmount,
+    usdValue,
+    price,
+    depositAprPercent,
+    borrowAprPercent,
+    protocolMarketId: String(marketIndex),
+    subAccountId: user.getUserAccount().subAccountId,
+    accountMargin,
+  };
+}
+
+/**
+ * Annual rate of a spot market in %
+ * @param rate Rate in spot market rate precision (1e6 is 100%)
+ */
+function getAprPercent(rate: BN): number {
+  return convertToNumber(rate, SPOT_MARKET_RATE_PRECISION) * 100;
+}
 
-    return {
-      symbol: marketInfo.baseAssetSymbol,
-      sizeUsd: positionSizeUsd,
-      baseAmount: Math.abs(baseAmount),
-      direction,
-      pnl,
-      entryPrice,
-      markPrice,
-      leverage: Number(leverage.toFixed(2)),
-      protocolMarketId: marketIndex,
-    };
+/**
+ * PnL of a normalized position at another oracle price
+ * The SDK's calculatePositionPNL on the position and market accounts the position was built from, with the oracle price
+ * replaced, so unsettled funding is included as in Position.pnl
+ * @param position Drift position returned by this adapter in this process
+ * @param markPrice Oracle price to value the position at
+ * @returns Unrealized PnL in USD including unsettled funding, in the same terms as Position.pnl
+ * @throws AccountNotFoundError if the position was not fetched by this adapter (e.g., read from a snapshot)
+ */
+export function calculateDriftPnlAtPrice(position: Position, markPrice: Decimal): Decimal {
+  const accounts = positionAccounts.get(position);
+  if (!accounts) {
+    throw new AccountNotFoundError(`Drift accounts of the ${position.symbol} position were not fetched`, {
+      subject: position.symbol,
+    });
+  }
+
+  const { perpPosition, marketAccount, oracleData } = accounts;
+  const price = new BN(markPrice.toUnits(PRICE_PRECISION_EXP.toNumber()).toString());
+  return Decimal.fromPrecision(
+    calculatePositionPNL(marketAccount, perpPosition, true, { ...oracleData, price }),
+    QUOTE_PRECISION,
+  );
+}
+
+/**
+ * Funding figures of a position, from the position's point of view (positive is received)
+ */
+function getPositionFunding(
+  driftClient: DriftClient,
+  marketAccount: PerpMarketAccount,
+  position: PerpPosition,
+  direction: Position["direction"],
+): PositionFunding {
+  const { amm } = marketAccount;
+
+  // Funding rates are quote per base; longs pay a positive rate and shorts receive it
+  const lastRate = direction === "LONG" ? amm.lastFundingRateLong : amm.lastFundingRateShort;
+  const oracleTwap = convertToNumber(amm.lastFundingOracleTwap, PRICE_PRECISION);
+  const lastRatePercent = oracleTwap > 0 ? (convertToNumber(lastRate, FUNDING_RATE_PRECISION) / oracleTwap) * 100 : 0;
+
+  return {
+    unsettledPnl: Decimal.fromPrecision(calculateUnsettledFundingPnl(marketAccount, position), QUOTE_PRECISION),
+    settledPnlWithFees: Decimal.fromPrecision(
+      calculateFeesAndFundingPnl(marketAccount, position, false),
+      QUOTE_PRECISION,
+    ),
+    lastHourlyRatePercent: direction === "LONG" ? -lastRatePercent : lastRatePercent,
+    predictedHourlyRatePercent: estimateHourlyFundingRate(driftClient, marketAccount, direction),
+  };
+}
+
+/**
+ * Estimated next hourly funding rate in %, positive when the position's side receives
+ * @returns undefined when the market TWAPs are not available yet
+ */
+function estimateHourlyFundingRate(
+  driftClient: DriftClient,
+  marketAccount: PerpMarketAccount,
+  direction: Position["direction"],
+): number | undefined {
+  const { marketIndex } = marketAccount;
+
+  try {
+    const { longRate, shortRate } = calculateFormattedLiveFundingRate(
+      marketAccount,
+      driftClient.getMMOracleDataForPerpMarket(marketIndex),
+      driftClient.getOracleDataForPerpMarket(marketIndex),
+      "hour",
+    );
+    return direction === "LONG" ? longRate : shortRate;
   } catch (error) {
-    const details = getErrorDetails(error);
-    logger.error(`❌ Position processing error (market: ${position.marketIndex}): ${details.message}`);
-    return null;
+    logger.debug(`⚠️ Funding rate estimate unavailable (market: ${marketIndex}): ${getErrorDetails(error).message}`);
+    return undefined;
   }
 }
 
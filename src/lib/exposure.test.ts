@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import { resolveUnderlyingAsset } from "../constants";
+import { createPosition, createSpotBalance } from "../testing/fixtures";
+import type { AccountMargin, Position, SpotBalance } from "../types";
+import { Decimal } from "../utils";
+import { buildExposureReport } from "./exposure";
+
+const d = Decimal.parse;
+
+const ACCOUNT_MARGIN: AccountMargin = {
+  health: 85,
+  netAssetValue: d("10000"),
+  totalCollateral: d("9800"),
+  maintenanceMarginRequirement: d("1000"),
+  initialMarginRequirement: d("2000"),
+  freeCollateral: d("7800"),
+  leverage: 6.6,
+};
+
+function position(
+  protocol: string,
+  symbol: string,
+  direction: Position["direction"],
+  baseAmount: string,
+  price: string,
+): Position {
+  return createPosition(protocol, symbol, direction, {
+    sizeUsd: d(baseAmount).mul(d(price)),
+    baseAmount: d(baseAmount),
+    entryPrice: d(price),
+    markPrice: d(price),
+    ...(protocol === "drift"
+      ? { accountMargin: ACCOUNT_MARGIN }
+      : {
+          collateral: {
+            symbol: "USDC",
+            usdValue: d("5000"),
+            lockedAmount: Decimal.ZERO,
+            protocolCollateralId: "custody",
+          },
+        }),
+  });
+}
+
+const spotBalance = (symbol: string, side: SpotBalance["side"], tokenAmount: string, price: string) =>
+  createSpotBalance(symbol, side, tokenAmount, price, { accountMargin: ACCOUNT_MARGIN });
+
+describe("resolveUnderlyingAsset", () => {
+  test("maps protocol symbols to a common asset id", () => {
+    expect(resolveUnderlyingAsset("BTC")).toEqual({ assetId: "BTC", unitMultiplier: 1 });
+    expect(resolveUnderlyingAsset("wBTC")).toEqual({ assetId: "BTC", unitMultiplier: 1 });
+    expect(resolveUnderlyingAsset("SOL-2")).toEqual({ assetId: "SOL", unitMultiplier: 1 });
+    expect(resolveUnderlyingAsset("1MBONK")).toEqual({ assetId: "BONK", unitMultiplier: 1_000_000 });
+    expect(resolveUnderlyingAsset("mSOL")).toEqual({ assetId: "MSOL", unitMultiplier: 1 });
+  });
+});
+
+describe("buildExposureReport", () => {
+  test("nets positions and spot balances per asset and flags cross-protocol hedges", () => {
+    const report = buildExposureReport(
+      [
+        position("drift", "BTC", "SHORT", "1", "60000"),
+        position("jupiter", "BTC", "LONG", "0.5", "60000"),
+        position("drift", "SOL", "SHORT", "10", "150"),
+        position("drift", "1MBONK", "LONG", "2", "25"),
+      ],
+      [
+        spotBalance("wBTC", "DEPOSIT", "0.1", "60000"),
+        spotBalance("SOL", "DEPOSIT", "10", "150"),
+        spotBalance("USDC", "DEPOSIT", "5000", "1"),
+      ],
+    );
+
+    expect(report.assets.map((asset) => asset.assetId)).toEqual(["BTC", "SOL", "BONK"]);
+    const [btc, sol, bonk] = report.assets;
+
+    // Drift nets to 0.9 BTC short against Jupiter's 0.5 BTC long
+    expect(JSON.parse(JSON.stringify(btc))).toEqual({
+      assetId: "BTC",
+      symbols: ["BTC", "wBTC"],
+      protocols: ["drift", "jupiter"],
+      positionCount: 2,
+      spotBalanceCount: 1,
+      netBaseAmount: -0.4,
+      netNotionalUsd: -24000,
+      longNotionalUsd: 36000,
+      shortNotionalUsd: 60000,
+      grossNotionalUsd: 96000,
+      hedged: true,
+      hedgedNotionalUsd: 30000,
+    });
+    // A spot deposit against a perp short on the same venue is flat but not a cross-venue hedge
+    expect(sol?.netBaseAmount.toString()).toBe("0");
+    expect(sol?.hedged).toBe(false);
+    expect(bonk?.netBaseAmount.toString()).toBe("2000000");
+
+    // Drift account equity once plus the Jupiter position's isolated collateral
+    expect(report.totals.collateralUsd.toString()).toBe("15000");
+    expect(report.totals.grossNotionalUsd.toString()).toBe("99050");
+    expect(report.totals.effectiveLeverage).toBeCloseTo(6.6033, 4);
+  });
+});
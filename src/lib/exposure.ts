@@ -0,0 +1,127 @@
+import { isQuoteAsset, resolveUnderlyingAsset } from "../constants";
+import type { AssetExposure, ExposureReport, Position, ProtocolId, SpotBalance } from "../types";
+import { calculatePortfolioTotals, Decimal, getSignedSpotAmounts } from "../utils";
+
+/**
+ * Cross-protocol exposure report
+ * Positions and spot balances are grouped by underlying asset (see resolveUnderlyingAsset), so a Drift BTC-PERP short,
+ * a Jupiter BTC long and a Drift wBTC deposit land in one row. Stablecoin balances are collateral and have no row.
+ * Exposure that one protocol holds against another is flagged as a hedge.
+ */
+
+/** Signed contribution of one position or spot balance to an asset */
+interface ExposureLeg {
+  assetId: string;
+  protocol: ProtocolId;
+  symbol: string;
+  source: "position" | "spot";
+  /** Amount in asset units, negative for shorts and borrows */
+  baseAmount: Decimal;
+  /** Notional in USD, negative for shorts and borrows */
+  notionalUsd: Decimal;
+}
+
+/**
+ * Build the exposure report of a set of positions and spot balances
+ * @param positions Open positions of any protocol
+ * @param spotBalances Spot deposits and borrows of cross-margin accounts
+ */
+export function buildExposureReport(positions: Position[], spotBalances: SpotBalance[] = []): ExposureReport {
+  const legs = [...positions.map(toPositionLeg), ...spotBalances.map(toSpotLeg)];
+
+  const groups = new Map<string, ExposureLeg[]>();
+  for (const leg of legs) {
+    if (isQuoteAsset(leg.assetId)) continue;
+    groups.set(leg.assetId, [...(groups.get(leg.assetId) ?? []), leg]);
+  }
+
+  const assets = [...groups.entries()]
+    .map(([assetId, group]) => aggregateAsset(assetId, group))
+    .sort((a, b) => b.grossNotionalUsd.cmp(a.grossNotionalUsd));
+
+  const longNotionalUsd = Decimal.sum(assets.map((asset) => asset.longNotionalUsd));
+  const shortNotionalUsd = Decimal.sum(assets.map((asset) => asset.shortNotionalUsd));
+  const grossNotionalUsd = longNotionalUsd.add(shortNotionalUsd);
+  const collateralUsd = calculateCollateralUsd(positions, spotBalances);
+
+  return {
+    assets,
+    totals: {
+      longNotionalUsd,
+      shortNotionalUsd,
+      grossNotionalUsd,
+      netNotionalUsd: longNotionalUsd.sub(shortNotionalUsd),
+      collateralUsd,
+      effectiveLeverage: collateralUsd.isPositive() ? grossNotionalUsd.div(collateralUsd).toNumber() : 0,
+    },
+  };
+}
+
+function aggregateAsset(assetId: string, legs: ExposureLeg[]): AssetExposure {
+  const longNotionalUsd = Decimal.sum(legs.flatMap((leg) => (leg.notionalUsd.isPositive() ? [leg.notionalUsd] : [])));
+  const shortNotionalUsd = Decimal.sum(
+    legs.flatMap((leg) => (leg.notionalUsd.isNegative() ? [leg.notionalUsd.abs()] : [])),
+  );
+
+  // Net each protocol first: a hedge is exposure one venue holds against another
+  const protocolDeltas = new Map<ProtocolId, Decimal>();
+  for (const leg of legs) {
+    protocolDeltas.set(leg.protocol, (protocolDeltas.get(leg.protocol) ?? Decimal.ZERO).add(leg.notionalUsd));
+  }
+  const deltas = [...protocolDeltas.values()];
+  const netLongUsd = Decimal.sum(deltas.filter((delta) => delta.isPositive()));
+  const netShortUsd = Decimal.sum(deltas.filter((delta) => delta.isNegative())).abs();
+  const hedgedNotionalUsd = Decimal.min(netLongUsd, netShortUsd);
+
+  return {
+    assetId,
+    symbols: [...new Set(legs.map((leg) => leg.symbol))],
+    protocols: [...protocolDeltas.keys()],
+    positionCount: legs.filter((leg) => leg.source === "position").length,
+    spotBalanceCount: legs.filter((leg) => leg.source === "spot").length,
+    netBaseAmount: Decimal.sum(legs.map((leg) => leg.baseAmount)),
+    netNotionalUsd: longNotionalUsd.sub(shortNotionalUsd),
+    longNotionalUsd,
+    shortNotionalUsd,
+    grossNotionalUsd: longNotionalUsd.add(shortNotionalUsd),
+    hedged: hedgedNotionalUsd.isPositive(),
+    hedgedNotionalUsd,
+  };
+}
+
+/**
+ * Net asset value of the cross-margin accounts plus the collateral of isolated positions
+ */
+function calculateCollateralUsd(positions: Position[], spotBalances: SpotBalance[]): Decimal {
+  const { accountEquity } = calculatePortfolioTotals(positions, spotBalances);
+  const isolatedCollateral = positions.flatMap((pos) =>
+    !pos.accountMargin && pos.collateral ? [pos.collateral.usdValue] : [],
+  );
+  return accountEquity.add(Decimal.sum(isolatedCollateral));
+}
+
+function toPositionLeg(position: Position): ExposureLeg {
+  const { assetId, unitMultiplier } = resolveUnderlyingAsset(position.symbol);
+  const sign = position.direction === "LONG" ? 1 : -1;
+  return {
+    assetId,
+    protocol: position.protocol,
+    symbol: position.symbol,
+    source: "position",
+    baseAmount: position.baseAmount.mul(Decimal.fromNumber(sign * unitMultiplier)),
+    notionalUsd: sign === 1 ? position.sizeUsd : position.sizeUsd.neg(),
+  };
+}
+
+function toSpotLeg(balance: SpotBalance): ExposureLeg {
+  const { assetId, unitMultiplier } = resolveUnderlyingAsset(balance.symbol);
+  const { tokenAmount, usdValue } = getSignedSpotAmounts(balance);
+  return {
+    assetId,
+    protocol: balance.protocol,
+    symbol: balance.symbol,
+    source: "spot",
+    baseAmount: tokenAmount.mul(Decimal.fromNumber(unitMultiplier)),
+    notionalUsd: usdValue,
+  };
+}
@@ -0,0 +1,12 @@
+// Protocol modules register their adapters on import
+export * from "./alerts";
+export * from "./drift";
+export * from "./exposure";
+export * from "./jupiter";
+export * from "./jupiter-markets";
+export * from "./portfolio";
+export * from "./registry";
+export * from "./scenario";
+export * from "./snapshots";
+export * from "./watch";
+export * from "./webhook";
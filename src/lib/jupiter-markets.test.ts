@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { type Connection, PublicKey } from "@solana/web3.js";
+import { CUSTODY_PUBKEY, USDC_MINT } from "../constants";
+import { buildJupiterMarkets, getStaticJupiterMarkets, loadJupiterMarkets } from "./jupiter-markets";
+import { decodeTokenMetadataSymbol } from "./token-metadata";
+
+const NEW_CUSTODY = "9Y9dq2rqtS4dcLMsz2wWXNxDxqBnmxsxuJ4Hx8yZmT4h";
+const NEW_MINT = new PublicKey("JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN");
+const ORACLE = new PublicKey("7UVimffxr9ow1uXYxsr4LHAcV58mLzhmwaeKvJ1pjLiE");
+
+/** Custody fields read by market discovery */
+const custody = (mint: PublicKey | string, decimals: number) => ({
+  mint: new PublicKey(mint),
+  decimals,
+  oracle: { oracleAccount: ORACLE } as never,
+});
+
+/** Metaplex MetadataV1 account with null-padded name and symbol */
+function metadataAccount(name: string, symbol: string): Buffer {
+  const borshString = (value: string, length: number) => {
+    const bytes = Buffer.alloc(4 + length);
+    bytes.writeUInt32LE(length);
+    bytes.write(value, 4);
+    return bytes;
+  };
+  return Buffer.concat([Buffer.from([4]), Buffer.alloc(64), borshString(name, 32), borshString(symbol, 10)]);
+}
+
+describe("buildJupiterMarkets", () => {
+  test("names known mints from the static table and new mints from their metadata", () => {
+    const markets = buildJupiterMarkets(
+      [
+        [CUSTODY_PUBKEY.USDC, custody(USDC_MINT, 6)],
+        [NEW_CUSTODY, custody(NEW_MINT, 6)],
+      ],
+      new Map([[NEW_MINT.toBase58(), "JUP"]]),
+    );
+
+    expect([...markets.keys()]).toEqual([CUSTODY_PUBKEY.USDC, NEW_CUSTODY]);
+    expect(markets.get(CUSTODY_PUBKEY.USDC)).toMatchObject({ symbol: "USDC", mint: USDC_MINT, decimals: 6 });
+    expect(markets.get(NEW_CUSTODY)).toEqual({
+      symbol: "JUP",
+      custody: NEW_CUSTODY,
+      mint: NEW_MINT.toBase58(),
+      decimals: 6,
+      oracle: ORACLE.toBase58(),
+    });
+  });
+
+  test("falls back to the mint address for tokens without metadata", () => {
+    const markets = buildJupiterMarkets([[NEW_CUSTODY, custody(NEW_MINT, 6)]]);
+    expect(markets.get(NEW_CUSTODY)?.symbol).toBe(NEW_MINT.toBase58());
+  });
+});
+
+describe("loadJupiterMarkets", () => {
+  test("uses the static table with a warning when the pool account is missing", async () => {
+    const connection = {
+      rpcEndpoint: "https://offline.example.com",
+      getAccountInfo: async () => null,
+    } as unknown as Connection;
+
+    const { markets, warnings } = await loadJupiterMarkets(connection);
+
+    expect(markets).toEqual(getStaticJupiterMarkets());
+    expect(markets.get(CUSTODY_PUBKEY.SOL)).toMatchObject({ symbol: "SOL", decimals: 9 });
+    expect(warnings).toEqual([expect.objectContaining({ code: "ACCOUNT_NOT_FOUND" })]);
+  });
+});
+
+describe("decodeTokenMetadataSymbol", () => {
+  test("strips the null padding", () => {
+    expect(decodeTokenMetadataSymbol(metadataAccount("Jupiter", "JUP"))).toBe("JUP");
+    expect(decodeTokenMetadataSymbol(metadataAccount("Unnamed", ""))).toBeUndefined();
+  });
+
+  test("rejects other accounts", () => {
+    expect(() => decodeTokenMetadataSymbol(Buffer.alloc(120))).toThrow("Not a Metaplex Metadata account");
+  });
+});
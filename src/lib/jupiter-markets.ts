@@ -0,0 +1,197 @@
+import type { Connection, PublicKey } from "@solana/web3.js";
+import { JUPITER_MAINNET, JUPITER_MARKETS, JUPITER_PERPETUALS_PROGRAM, type JupiterDeployment } from "../constants";
+import type { FetchIssue } from "../types";
+import type { JupiterCustodyAccount, JupiterPoolAccount } from "../types/jupiter";
+import { AccountNotFoundError, getErrorDetails, logger, toFetchIssue } from "../utils";
+import { decodeTokenMetadataSymbol, getTokenMetadataAddress } from "./token-metadata";
+
+/**
+ * Jupiter market discovery
+ * Markets are read from the JLP pool account: every custody of the pool is a market, with its mint, decimals and
+ * oracle taken from the custody account. Symbols come from the static table for known mints and from the token's
+ * Metaplex metadata otherwise, so markets listed after a release work without a code change. When the pool cannot
+ * be read, the static JUPITER_MARKETS table is used instead.
+ */
+
+// ========================================================================================
+// Constants
+// ========================================================================================
+
+/** How long discovered markets are reused before the pool is read again */
+const MARKET_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// ========================================================================================
+// Types
+// ========================================================================================
+
+/** Market backed by one custody of the JLP pool */
+export interface JupiterMarket {
+  /** Token symbol (e.g., "SOL"); the mint address when the token has no known symbol */
+  symbol: string;
+  /** Custody address, used as the market id */
+  custody: string;
+  /** Token mint address */
+  mint: string;
+  /** Token decimals */
+  decimals: number;
+  /** Custody oracle account (unknown for static fallback markets) */
+  oracle?: string;
+}
+
+/** Markets keyed by custody address */
+export type JupiterMarketMap = Map<string, JupiterMarket>;
+
+/** Markets with the problems that forced the static fallback */
+export interface LoadedJupiterMarkets {
+  markets: JupiterMarketMap;
+  warnings: FetchIssue[];
+}
+
+/** Discovered markets per RPC endpoint and pool */
+const marketCache = new Map<string, { markets: JupiterMarketMap; expiresAt: number }>();
+
+// ========================================================================================
+// Discovery
+// ========================================================================================
+
+/**
+ * Load Jupiter markets from the JLP pool, falling back to the static table when the pool cannot be read
+ * Discovered markets are cached per RPC endpoint and pool; fallbacks are not cached, so the next call retries the pool
+ * @param connection RPC connection
+ * @param deployment Jupiter Perpetuals deployment (default: mainnet)
+ * @returns Markets keyed by custody address, with a warning when the static table was used
+ */
+export async function loadJupiterMarkets(
+  connection: Connection,
+  deployment: JupiterDeployment = JUPITER_MAINNET,
+): Promise<LoadedJupiterMarkets> {
+  const cacheKey = `${connection.rpcEndpoint} ${deployment.poolAccount.toBase58()}`;
+  const cached = marketCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return { markets: cached.markets, warnings: [] };
+  }
+
+  try {
+    const markets = await discoverJupiterMarkets(connection, deployment.poolAccount);
+    marketCache.set(cacheKey, { markets, expiresAt: Date.now() + MARKET_CACHE_TTL_MS });
+    return { markets, warnings: [] };
+  } catch (error) {
+    const details = getErrorDetails(error);
+    logger.warn(`⚠️ Jupiter market discovery failed, using the static market table: ${details.message}`);
+    return { markets: getStaticJupiterMarkets(), warnings: [toFetchIssue(error)] };
+  }
+}
+
+/**
+ * Read the JLP pool, its custodies and the metadata of unknown mints
+ * Custodies that cannot be read are skipped; the pool itself must be readable
+ * @param connection RPC connection
+ * @param poolAccount JLP pool account (default: mainnet)
+ * @returns Markets keyed by custody address, in pool order
+ * @throws AccountNotFoundError when the pool account does not exist
+ * @throws PositionFetchError subclass when the RPC requests fail
+ */
+export async function discoverJupiterMarkets(
+  connection: Connection,
+  poolAccount: PublicKey = JUPITER_MAINNET.poolAccount,
+): Promise<JupiterMarketMap> {
+  const poolInfo = await connection.getAccountInfo(poolAccount, "confirmed");
+  if (!poolInfo) {
+    throw new AccountNotFoundError(`JLP pool account not found: ${poolAccount.toBase58()}`, {
+      subject: poolAccount.toBase58(),
+    });
+  }
+  const pool = JUPITER_PERPETUALS_PROGRAM.coder.accounts.decode("pool", poolInfo.data) as JupiterPoolAccount;
+
+  const custodyInfos = await connection.getMultipleAccountsInfo(pool.custodies, "confirmed");
+  const custodies: [string, JupiterCustodyAccount][] = [];
+  custodyInfos.forEach((info, index) => {
+    const key = pool.custodies[index]?.toBase58();
+    if (!info || !key) {
+      logger.warn(`⚠️ Custody account not found: ${key}`);
+      return;
+    }
+
+    try {
+      custodies.push([key, JUPITER_PERPETUALS_PROGRAM.coder.accounts.decode("custody", info.data)]);
+    } catch (error) {
+      logger.warn(`⚠️ Failed to decode custody ${key}: ${getErrorDetails(error).message}`);
+    }
+  });
+
+  const symbols = await fetchMetadataSymbols(
+    connection,
+    custodies.map(([, custody]) => custody.mint).filter((mint) => !findStaticMarketByMint(mint.toBase58())),
+  );
+  const markets = buildJupiterMarkets(custodies, symbols);
+
+  const symbolList = [...markets.values()].map((market) => market.symbol).join(", ");
+  logger.debug(`✅ Discovered ${markets.size} Jupiter markets: ${symbolList}`);
+  return markets;
+}
+
+/**
+ * Markets from decoded custody accounts
+ * Symbols of known mints come from the static table, then from the metadata symbols, then the mint address
+ * @param custodies Decoded custody accounts with their addresses, in pool order
+ * @param metadataSymbols Token metadata symbols keyed by mint address
+ */
+export function buildJupiterMarkets(
+  custodies: readonly [string, Pick<JupiterCustodyAccount, "mint" | "decimals" | "oracle">][],
+  metadataSymbols: ReadonlyMap<string, string> = new Map(),
+): JupiterMarketMap {
+  return new Map(
+    custodies.map(([custodyKey, custody]) => {
+      const mint = custody.mint.toBase58();
+      const symbol = findStaticMarketByMint(mint)?.symbol ?? metadataSymbols.get(mint) ?? mint;
+      return [
+        custodyKey,
+        {
+          symbol,
+          custody: custodyKey,
+          mint,
+          decimals: custody.decimals,
+          oracle: custody.oracle.oracleAccount.toBase58(),
+        },
+      ];
+    }),
+  );
+}
+
+/**
+ * Markets of the static JUPITER_MARKETS table, keyed by custody address
+ */
+export function getStaticJupiterMarkets(): JupiterMarketMap {
+  return new Map(
+    JUPITER_MARKETS.map(({ symbol, custody, mint, decimals }) => [custody, { symbol, custody, mint, decimals }]),
+  );
+}
+
+/**
+ * Token symbols read from Metaplex metadata accounts
+ * Mints without readable metadata are omitted
+ * @returns Symbols keyed by mint address
+ */
+async function fetchMetadataSymbols(connection: Connection, mints: PublicKey[]): Promise<Map<string, string>> {
+  const symbols = new Map<string, string>();
+  if (mints.length === 0) return symbols;
+
+  const metadataInfos = await connection.getMultipleAccountsInfo(mints.map(getTokenMetadataAddress), "confirmed");
+  metadataInfos.forEach((info, index) => {
+    const mint = mints[index]?.toBase58();
+    if (!info || !mint) return;
+
+    try {
+      const symbol = decodeTokenMetadataSymbol(info.data);
+      if (symbol) symbols.set(mint, symbol);
+    } catch (error) {
+      logger.debug(`⚠️ Failed to decode token metadata of ${mint}: ${getErrorDetails(error).message}`);
+    }
+  });
+
+  return symbols;
+}
+
+function findStaticMarketByMint(mint: string) {
+  return JUPITER_MARKETS.find((market) => market.mint === mint);
+}
@@ -0,0 +1,219 @@
+import { describe, expect, test } from "bun:test";
+import { BN } from "@coral-xyz/anchor";
+import { CUSTODY_PUBKEY, createRpcConnection, USD_DECIMALS } from "../constants";
+import { TEST_OWNER } from "../testing/fixtures";
+import { FIXTURE_RPC_URL, useFixtureHttp } from "../testing/replay";
+import { JupiterSideHelpers } from "../types/jupiter";
+import { Decimal, validatePosition } from "../utils";
+import {
+  calculatePositionPnl,
+  decodePositionAccounts,
+  fetchPositionAccounts,
+  filterOpenPositions,
+  getJupiterPositions,
+  getPositionCollateral,
+} from "./jupiter";
+import { getStaticJupiterMarkets, loadJupiterMarkets } from "./jupiter-markets";
+
+/** Wallet whose BTC long is priced by the quote API: the recorded BTC custody has no oracle account */
+const BTC_WALLET = "7wUEPUJ2fDGxnDdftLSgFJwa6LW6j9WuFNa8FmTWAu9S";
+
+const usd = (value: number) => new BN(Math.round(value * 1e6));
+
+describe("calculatePositionPnl", () => {
+  test("long in profit when the price rises", () => {
+    const [hasProfit, pnl] = calculatePositionPnl(usd(5000), usd(145.23), "long", usd(152.5));
+    expect(hasProfit).toBe(true);
+    // 5000 * (152.5 - 145.23) / 145.23
+    expect(pnl.toNumber()).toBe(250_292_639);
+  });
+
+  test("long at a loss when the price falls", () => {
+    const [hasProfit, pnl] = calculatePositionPnl(usd(5000), usd(145.23), "long", usd(130));
+    expect(hasProfit).toBe(false);
+    expect(pnl.toNumber()).toBe(524_340_700);
+  });
+
+  test("short in profit when the price falls", () => {
+    const [hasProfit, pnl] = calculatePositionPnl(usd(12_000), usd(3980.5), "short", usd(3800));
+    expect(hasProfit).toBe(true);
+    expect(pnl.toNumber()).toBe(544_152_744);
+  });
+
+  test("no PnL at the entry price or for an empty position", () => {
+    expect(calculatePositionPnl(usd(5000), usd(145.23), "short", usd(145.23))).toEqual([false, new BN(0)]);
+    expect(calculatePositionPnl(new BN(0), usd(145.23), "long", usd(200))).toEqual([false, new BN(0)]);
+  });
+});
+
+describe("replayed mainnet accounts", () => {
+  useFixtureHttp();
+
+  const connection = () => createRpcConnection(FIXTURE_RPC_URL);
+  const fetchDecoded = async () => decodePositionAccounts(await fetchPositionAccounts(connection(), TEST_OWNER));
+
+  describe("position accounts", () => {
+    test("decodes the owner's position accounts, closed ones included", async () => {
+      const rawAccounts = await fetchPositionAccounts(connection(), TEST_OWNER);
+      expect(rawAccounts).toHaveLength(3);
+
+      const { decoded, errors } = decodePositionAccounts(rawAccounts);
+      expect(errors).toEqual([]);
+
+      const [sol, eth, btc] = decoded;
+      expect(sol?.publicKey.toBase58()).toBe("8h6K4U6XB3xnf8tPhER1DbaAgTDvRCqJdHDcMwxbk1hs");
+      expect(sol?.account.owner.toBase58()).toBe(TEST_OWNER);
+      expect(sol?.account.custody.toBase58()).toBe(CUSTODY_PUBKEY.SOL);
+      expect(JupiterSideHelpers.toString(sol?.account.side ?? { none: {} })).toBe("LONG");
+      expect(sol?.account.price.toString()).toBe("171842107");
+      expect(sol?.account.sizeUsd.toString()).toBe("4812337219");
+
+      expect(eth?.account.collateralCustody.toBase58()).toBe(CUSTODY_PUBKEY.USDC);
+      expect(JupiterSideHelpers.toString(eth?.account.side ?? { none: {} })).toBe("SHORT");
+      expect(btc?.account.sizeUsd.isZero()).toBe(true);
+    });
+
+    test("reports undecodable accounts instead of failing", async () => {
+      const rawAccounts = await fetchPositionAccounts(connection(), TEST_OWNER);
+      const [sol, eth, btc] = rawAccounts;
+      if (!sol || !eth || !btc) throw new Error("fixture has no positions");
+      const truncated = { ...eth, account: { ...eth.account, data: eth.account.data.subarray(0, 40) } };
+
+      const { decoded, errors } = decodePositionAccounts([sol, truncated, btc]);
+      expect(decoded).toHaveLength(2);
+      expect(errors).toEqual([expect.objectContaining({ code: "DECODE_ERROR", subject: eth.pubkey.toBase58() })]);
+    });
+
+    test("keeps only positions with size and a side", async () => {
+      const open = filterOpenPositions((await fetchDecoded()).decoded);
+
+      expect(open.map((position) => position.account.custody.toBase58())).toEqual([
+        CUSTODY_PUBKEY.SOL,
+        CUSTODY_PUBKEY.ETH,
+      ]);
+    });
+
+    test("reports collateral in the underlying for longs and in a stablecoin for shorts", async () => {
+      const [sol, eth] = (await fetchDecoded()).decoded;
+      if (!sol || !eth) throw new Error("fixture has no positions");
+
+      const solCollateral = getPositionCollateral(sol.account, getStaticJupiterMarkets());
+      expect(solCollateral).toMatchObject({ symbol: "SOL", protocolCollateralId: CUSTODY_PUBKEY.SOL });
+      expect(solCollateral.usdValue.toString()).toBe("962.451338");
+      expect(solCollateral.lockedAmount.toString()).toBe("28.004412323");
+
+      const ethCollateral = getPositionCollateral(eth.account, getStaticJupiterMarkets());
+      expect(ethCollateral).toMatchObject({ symbol: "USDC", protocolCollateralId: CUSTODY_PUBKEY.USDC });
+      expect(ethCollateral.usdValue.toString()).toBe("2409.55331");
+      expect(ethCollateral.lockedAmount.toString()).toBe("12044.81077");
+    });
+
+    test("drops positions whose side is none", async () => {
+      const [sol] = (await fetchDecoded()).decoded;
+      if (!sol) throw new Error("fixture has no positions");
+
+      expect(filterOpenPositions([{ ...sol, account: { ...sol.account, side: { none: {} } } }])).toEqual([]);
+    });
+  });
+
+  describe("getJupiterPositions", () => {
+    test("marks positions at the custody oracles, net of borrow and close fees", async () => {
+      const { positions, warnings, errors } = await getJupiterPositions(TEST_OWNER, FIXTURE_RPC_URL);
+      const [sol, eth] = positions;
+
+      expect(warnings).toEqual([]);
+      expect(errors).toEqual([]);
+      expect(JSON.parse(JSON.stringify(sol))).toMatchObject({
+        protocol: "jupiter",
+        owner: TEST_OWNER,
+        accountAddress: "8h6K4U6XB3xnf8tPhER1DbaAgTDvRCqJdHDcMwxbk1hs",
+        symbol: "SOL",
+        direction: "LONG",
+        sizeUsd: 4812.337219,
+        entryPrice: 171.842107,
+        markPrice: 178.423152,
+        markPriceSource: "oracle",
+        leverage: 5.0001,
+        protocolMarketId: CUSTODY_PUBKEY.SOL,
+        openedAt: "2026-10-10T14:25:54.000Z",
+      });
+      // 6 dbps an hour on 4812.337219 since the 1.176318114 interest snapshot, and 6 bps to close
+      expect(sol?.fees?.borrowUsd.toString()).toBe("40.688657");
+      expect(sol?.fees?.closeUsd.toString()).toBe("2.887402");
+      expect(sol?.pnl.toString()).toBe("140.722238");
+      // Liquidated when the loss leaves 0.4% of the size (250x max leverage) plus fees of the collateral
+      expect(sol?.liquidationPrice?.toString()).toBe("139.717672");
+      expect(sol?.collateral?.tokenAmount?.toString()).toBe("5.394206566");
+      expect(validatePosition(sol)).toEqual([]);
+
+      expect(eth).toMatchObject({ symbol: "ETH", direction: "SHORT" });
+      expect([eth?.markPrice, eth?.pnl, eth?.liquidationPrice].map(String)).toEqual([
+        "3902.774183",
+        "232.521118",
+        "4761.499925",
+      ]);
+      // USDC collateral at its 0.999938 oracle price
+      expect(eth?.collateral?.tokenAmount?.toString()).toBe("2409.702712");
+    });
+
+    test("PnL is the official PnL at the mark price less fees", async () => {
+      const { positions } = await getJupiterPositions(TEST_OWNER, FIXTURE_RPC_URL);
+      const toBN = (value: Decimal) => new BN(value.toUnits(USD_DECIMALS).toString());
+
+      for (const position of positions) {
+        const side = position.direction === "LONG" ? "long" : "short";
+        const [hasProfit, pnl] = calculatePositionPnl(
+          toBN(position.sizeUsd),
+          toBN(position.entryPrice),
+          side,
+          toBN(position.markPrice),
+        );
+        const fees = position.fees ? position.fees.borrowUsd.add(position.fees.closeUsd) : Decimal.ZERO;
+
+        expect(hasProfit).toBe(true);
+        expect(Decimal.fromUnits(pnl, USD_DECIMALS).sub(fees).toString()).toBe(position.pnl.toString());
+      }
+    });
+
+    test("marks with a swap quote when the oracle account is missing", async () => {
+      const { positions, warnings, errors } = await getJupiterPositions(BTC_WALLET, FIXTURE_RPC_URL);
+      const [btc] = positions;
+
+      expect(errors).toEqual([]);
+      expect(warnings).toEqual([
+        expect.objectContaining({
+          code: "PRICE_UNAVAILABLE",
+          message: "Oracle price unavailable for BTC: marked with a swap quote",
+        }),
+      ]);
+      // 1 BTC quoted at 104871.238455 USDC
+      expect(btc).toMatchObject({ symbol: "BTC", direction: "LONG", markPriceSource: "quote" });
+      expect([btc?.markPrice, btc?.pnl].map(String)).toEqual(["104871.238455", "593.239842"]);
+      expect(btc?.collateral?.tokenAmount?.toString()).toBe("0.04826194");
+    });
+  });
+});
+
+describe("network profiles", () => {
+  test("reports a warning instead of querying a network without Jupiter Perpetuals", async () => {
+    const result = await getJupiterPositions(TEST_OWNER, undefined, "devnet");
+
+    expect(result.positions).toEqual([]);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ code: "ACCOUNT_NOT_FOUND", message: "Jupiter Perpetuals is not deployed on devnet" }),
+    ]);
+  });
+
+  // Needs a solana-test-validator with the Jupiter accounts cloned (see README, Local validator)
+  describe.skipIf(!process.env.LOCALNET)("local validator", () => {
+    test("discovers markets from the cloned JLP pool and prices positions from cloned oracles", async () => {
+      const { markets, warnings } = await loadJupiterMarkets(createRpcConnection(undefined, "localnet"));
+      expect(warnings).toEqual([]);
+      expect(markets.get(CUSTODY_PUBKEY.SOL)?.symbol).toBe("SOL");
+
+      const result = await getJupiterPositions(process.env.LOCALNET_WALLET ?? TEST_OWNER, undefined, "localnet");
+      expect(result.errors).toEqual([]);
+    });
+  });
+});
@@ -1,38 +1,57 @@
 import { BN } from "@coral-xyz/anchor";
-import { PublicKey } from "@solana/web3.js";
+import { type AccountInfo, type Connection, PublicKey } from "@solana/web3.js";
 import {
-  JUPITER_MARKETS,
+  BPS_POWER,
+  createRpcConnection,
+  DBPS_POWER,
+  getNetworkProfile,
+  JUPITER_MAINNET,
   JUPITER_PERPETUALS_PROGRAM,
+  type JupiterDeployment,
+  type NetworkId,
+  RATE_POWER,
   RPC_CONNECTION,
-  USD_PRECISION,
+  USD_DECIMALS,
   USDC_DECIMALS,
+  USDC_MINT,
 } from "../constants";
-import type { Position } from "../types";
-import type { JupiterPositionAccount } from "../types/jupiter";
+import type {
+  FetchIssue,
+  FetchPositionsOptions,
+  MarketInfo,
+  PerpProtocolAdapter,
+  Position,
+  PositionCollateral,
+  PositionFetchResult,
+  PositionListener,
+  PositionSubscription,
+  PriceSource,
+} from "../types";
+import type { JupiterCustodyAccount, JupiterPositionAccount } from "../types/jupiter";
 import { JupiterSideHelpers } from "../types/jupiter";
-import { getErrorDetails, logger } from "../utils";
+import {
+  AccountNotFoundError,
+  calculateLiquidationDistancePercent,
+  Decimal,
+  DecodeError,
+  fetchHttp,
+  getErrorDetails,
+  logger,
+  POSITION_SCHEMA_VERSION,
+  PriceUnavailableError,
+  toFetchIssue,
+  UnsupportedMarketError,
+} from "../utils";
+import { type JupiterMarket, type JupiterMarketMap, loadJupiterMarkets } from "./jupiter-markets";
+import { decodePythPriceUpdate } from "./pyth";
+import { registerAdapter } from "./registry";
 
 // ========================================================================================
 // Constants
 // ========================================================================================
 
-/** Token mint addresses for supported tokens */
-const TOKEN_MINTS = {
-  SOL: "So11111111111111111111111111111111111111112",
-  BTC: "3NZ9JMVBmGAqocybic2c7LQCJScmgsAZ6vQqTDzcqmJh", // Wrapped Bitcoin
-  ETH: "7vfCXTUXx5WJV5JADk17DUJ4ksgau7utNKj4b963voxs", // Wrapped Ethereum
-  USDC: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
-  USDT: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
-} as const;
-
-/** Token decimals for proper amount calculation */
-const TOKEN_DECIMALS = {
-  SOL: 9,
-  BTC: 8,
-  ETH: 8,
-  USDC: 6,
-  USDT: 6,
-} as const;
+/** Adapter id */
+const PROTOCOL_ID = "jupiter";
 
 /** Configuration constants */
 const CONFIG = {
@@ -46,6 +65,8 @@ const CONFIG = {
   JUPITER_QUOTE_API: "https://quote-api.jup.ag/v6/quote",
   /** Slippage tolerance for quotes */
   SLIPPAGE_BPS: 50,
+  /** Seconds per hour, used to accrue the hourly borrow rate */
+  SECONDS_PER_HOUR: 3600,
 } as const;
 
 // ========================================================================================
@@ -57,25 +78,73 @@ interface PriceFetchResult {
   success: boolean;
   price: BN;
   symbol: string;
+  /** Where the price came from */
+  source: PriceSource;
 }
 
 /** Decoded position account with metadata */
-interface DecodedPosition {
+export interface DecodedPosition {
   publicKey: PublicKey;
   account: JupiterPositionAccount;
 }
 
+/** Decoded position accounts with the accounts that could not be decoded */
+export interface DecodedPositionAccounts {
+  decoded: DecodedPosition[];
+  errors: FetchIssue[];
+}
+
+/** Processed position with the problems that degraded its data */
+interface ProcessedPosition {
+  position: Position;
+  warnings: FetchIssue[];
+}
+
+/** Collateral details with the problems that left them incomplete */
+interface ResolvedCollateral {
+  collateral?: PositionCollateral;
+  warnings: FetchIssue[];
+}
+
+/** Raw position account as returned by getProgramAccounts */
+type RawPositionAccount = { pubkey: PublicKey; account: AccountInfo<Buffer> };
+
+/** Decoded custody accounts keyed by custody address */
+type CustodyAccountMap = Map<string, JupiterCustodyAccount>;
+
+/** Oracle prices keyed by custody address */
+type OraclePriceMap = Map<string, PriceFetchResult>;
+
+/** Current price of a market from the sources its network allows */
+type PriceLookup = (market: JupiterMarket) => Promise<PriceFetchResult>;
+
 /** Position calculation metrics */
 interface PositionMetrics {
-  sizeUsd: number;
-  collateralUsd: number;
-  entryPrice: number;
-  baseAmount: number;
-  markPrice: number;
-  pnl: number;
+  sizeUsd: Decimal;
+  collateralUsd: Decimal;
+  entryPrice: Decimal;
+  baseAmount: Decimal;
+  markPrice: Decimal;
+  /** Unrealized PnL net of borrow fee and close fee */
+  pnl: Decimal;
+  /** Accrued borrow fee in USD */
+  borrowFeeUsd: Decimal;
+  /** Estimated fee to close the position in USD */
+  closeFeeUsd: Decimal;
+  /** Liquidation price (undefined without custody data) */
+  liquidationPrice?: Decimal;
+  /** Source of the mark price (undefined when no price was available) */
+  markPriceSource: PriceSource;
   leverage: number;
 }
 
+/**
+ * USD amount or price in Jupiter's 6-decimal precision
+ */
+function toUsd(amount: BN): Decimal {
+  return Decimal.fromUnits(amount, USD_DECIMALS);
+}
+
 // ========================================================================================
 // Core PnL Calculation (Jupiter Official Method)
 // ========================================================================================
@@ -88,7 +157,7 @@ interface PositionMetrics {
  * @param currentPrice Current market price (as BN)
  * @returns [hasProfit: boolean, pnlAmount: BN]
  */
-function calculatePositionPnl(
+export function calculatePositionPnl(
   sizeUsdDelta: BN,
   positionAvgPrice: BN,
   positionSide: "long" | "short",
@@ -109,35 +178,174 @@ function calculatePositionPnl(
   return [hasProfit, pnlAmount];
 }
 
+/**
+ * PnL of a normalized position at another mark price, net of the fees owed on it
+ * Size, entry price and mark price are whole Jupiter USD units, so the official PnL math applies unchanged
+ * @param position Jupiter position
+ * @param markPrice Mark price to value the position at
+ * @returns Unrealized PnL in USD, in the same terms as Position.pnl
+ */
+export function calculateJupiterPnlAtPrice(position: Position, markPrice: Decimal): Decimal {
+  if (!position.entryPrice.isPositive()) {
+    return position.pnl;
+  }
+
+  const toBN = (value: Decimal) => new BN(value.toUnits(USD_DECIMALS).toString());
+  const side = position.direction === "LONG" ? "long" : "short";
+  const [hasProfit, pnlBN] = calculatePositionPnl(
+    toBN(position.sizeUsd),
+    toBN(position.entryPrice),
+    side,
+    toBN(markPrice),
+  );
+
+  const grossPnl = hasProfit ? toUsd(pnlBN) : toUsd(pnlBN).neg();
+  const feesUsd = position.fees ? position.fees.borrowUsd.add(position.fees.closeUsd) : Decimal.ZERO;
+  return grossPnl.sub(feesUsd);
+}
+
+/**
+ * Calculate the borrow fee accrued since the position's interest snapshot
+ * The custody accumulator is advanced by the hourly rate for the time elapsed since its last update
+ * @param position Position account data
+ * @param custody Custody account of the position asset
+ * @param nowSeconds Current unix timestamp in seconds
+ * @returns Borrow fee in USD (as BN, 6 decimal precision)
+ */
+function calculateBorrowFee(
+  position: JupiterPositionAccount,
+  custody: JupiterCustodyAccount,
+  nowSeconds: number = Math.floor(Date.now() / 1000),
+): BN {
+  if (position.sizeUsd.eqn(0)) {
+    return new BN(0);
+  }
+
+  const { cumulativeInterestRate, lastUpdate, hourlyFundingDbps } = custody.fundingRateState;
+  const elapsedSeconds = BN.max(new BN(nowSeconds).sub(lastUpdate), new BN(0));
+  const pendingInterestRate = hourlyFundingDbps
+    .mul(RATE_POWER)
+    .mul(elapsedSeconds)
+    .div(DBPS_POWER)
+    .divn(CONFIG.SECONDS_PER_HOUR);
+
+  const cumulativeInterest = cumulativeInterestRate.add(pendingInterestRate).sub(position.cumulativeInterestSnapshot);
+  if (cumulativeInterest.isNeg()) {
+    return new BN(0);
+  }
+
+  return position.sizeUsd.mul(cumulativeInterest).div(RATE_POWER);
+}
+
+/**
+ * Estimate the base fee charged when closing the full position
+ * @param sizeUsd Position size in USD (as BN)
+ * @param custody Custody account of the position asset
+ * @returns Close fee in USD (as BN, 6 decimal precision)
+ */
+function calculateCloseFee(sizeUsd: BN, custody: JupiterCustodyAccount): BN {
+  return sizeUsd.mul(custody.decreasePositionBps).div(BPS_POWER);
+}
+
+/**
+ * Calculate the liquidation price using Jupiter's official algorithm
+ * A position is liquidated once its loss plus fees leaves less than sizeUsd / maxLeverage of margin
+ * @param position Position account data
+ * @param custody Custody account of the position asset
+ * @param totalFeeUsd Borrow fee plus close fee (as BN)
+ * @returns Liquidation price (as BN, 6 decimal precision) or null if it cannot be derived
+ */
+function calculateLiquidationPrice(
+  position: JupiterPositionAccount,
+  custody: JupiterCustodyAccount,
+  totalFeeUsd: BN,
+): BN | null {
+  if (position.sizeUsd.eqn(0) || custody.pricing.maxLeverage.eqn(0)) {
+    return null;
+  }
+
+  const maxLossUsd = position.sizeUsd.mul(BPS_POWER).div(custody.pricing.maxLeverage).add(totalFeeUsd);
+  const marginUsd = position.collateralUsd;
+  const maxPriceDiff = maxLossUsd.sub(marginUsd).abs().mul(position.price).div(position.sizeUsd);
+
+  // When fees and maintenance margin already exceed collateral, liquidation sits on the profitable side of entry
+  const isUnderwater = maxLossUsd.gt(marginUsd);
+  const moveUp = JupiterSideHelpers.isLong(position.side) ? isUnderwater : !isUnderwater;
+  const liquidationPrice = moveUp ? position.price.add(maxPriceDiff) : position.price.sub(maxPriceDiff);
+
+  return BN.max(liquidationPrice, new BN(0));
+}
+
 // ========================================================================================
 // Price Fetching
 // ========================================================================================
 
+/**
+ * Fetch custody oracle prices, the same price source the Jupiter program uses
+ * @param connection RPC connection
+ * @param custodyAccounts Decoded custody accounts keyed by custody address
+ * @param markets Markets keyed by custody address, for log labels
+ * @returns Oracle prices keyed by custody address (custodies with unreadable oracles are omitted)
+ */
+async function fetchOraclePrices(
+  connection: Connection,
+  custodyAccounts: CustodyAccountMap,
+  markets: JupiterMarketMap,
+): Promise<OraclePriceMap> {
+  const entries = [...custodyAccounts.entries()];
+  const oracleInfos = await connection.getMultipleAccountsInfo(
+    entries.map(([, custody]) => custody.oracle.oracleAccount),
+    "confirmed",
+  );
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const oraclePrices: OraclePriceMap = new Map();
+
+  entries.forEach(([custodyKey, custody], index) => {
+    const oracleKey = custody.oracle.oracleAccount.toBase58();
+    const symbol = markets.get(custodyKey)?.symbol ?? custodyKey;
+    const info = oracleInfos[index];
+    if (!info) {
+      logger.warn(`⚠️ Oracle account not found for ${symbol}: ${oracleKey}`);
+      return;
+    }
+
+    try {
+      const { price, publishTime } = decodePythPriceUpdate(info.data);
+      const ageSeconds = nowSeconds - publishTime;
+      if (ageSeconds > custody.oracle.maxPriceAgeSec.toNumber()) {
+        logger.warn(`⚠️ Oracle price for ${symbol} is ${ageSeconds}s old`);
+      }
+
+      logger.debug(`💰 Oracle price for ${symbol}: $${toUsd(price).toFixed(6)} (${oracleKey})`);
+      oraclePrices.set(custodyKey, { success: true, price, symbol, source: "oracle" });
+    } catch (error) {
+      const details = getErrorDetails(error);
+      logger.warn(`⚠️ Failed to decode oracle ${oracleKey} for ${symbol}: ${details.message}`);
+    }
+  });
+
+  return oraclePrices;
+}
+
 /**
  * Fetch current market price from Jupiter Quote API
- * @param symbol Token symbol (e.g., "SOL", "BTC")
+ * Only used as a fallback when the custody oracle price is unavailable (includes swap slippage)
+ * @param market Market of the token to price (mint and decimals)
  * @returns Price fetch result with BN precision
  */
-async function fetchCurrentPrice(symbol: string): Promise<PriceFetchResult> {
+async function fetchQuotePrice(market: JupiterMarket): Promise<PriceFetchResult> {
+  const { symbol, mint: inputMint, decimals: tokenDecimals } = market;
   try {
-    // Get token mint and decimals
-    const inputMint = TOKEN_MINTS[symbol as keyof typeof TOKEN_MINTS];
-    const outputMint = TOKEN_MINTS.USDC; // Always quote against USDC
-
-    if (!inputMint) {
-      logger.debug(`❌ Unsupported token for price fetch: ${symbol}`);
-      return { success: false, price: new BN(0), symbol };
-    }
+    const outputMint = USDC_MINT; // Always quote against USDC
 
     // Skip price fetch for USDC (it's always 1.0)
-    if (symbol === "USDC") {
+    if (inputMint === USDC_MINT) {
       const usdcPrice = new BN(1 * 10 ** USDC_DECIMALS);
       logger.debug(`💰 USDC price (fixed): $1.00 (BN: ${usdcPrice.toString()})`);
-      return { success: true, price: usdcPrice, symbol };
+      return { success: true, price: usdcPrice, symbol, source: "quote" };
     }
 
     // Determine quote amount based on token
-    const tokenDecimals = TOKEN_DECIMALS[symbol as keyof typeof TOKEN_DECIMALS];
     const quoteAmount = 10 ** tokenDecimals; // 1 token in smallest units
 
     // Build Jupiter Quote API URL
@@ -149,11 +357,11 @@ async function fetchCurrentPrice(symbol: string): Promise<PriceFetchResult> {
 
     logger.debug(`🌐 Fetching ${symbol} price from Jupiter: ${url.toString()}`);
 
-    const response = await fetch(url.toString());
+    const response = await fetchHttp(url.toString());
 
     if (!response.ok) {
       logger.debug(`❌ Jupiter Quote API error: ${response.status} ${response.statusText}`);
-      return { success: false, price: new BN(0), symbol };
+      return { success: false, price: new BN(0), symbol, source: "quote" };
     }
 
     const data = (await response.json()) as {
@@ -165,7 +373,7 @@ async function fetchCurrentPrice(symbol: string): Promise<PriceFetchResult> {
 
     if (!data.outAmount || !data.inAmount) {
       logger.debug(`❌ Invalid quote response for ${symbol}: missing amounts`);
-      return { success: false, price: new BN(0), symbol };
+      return { success: false, price: new BN(0), symbol, source: "quote" };
     }
 
     // Calculate price: outAmount (USDC) / inAmount (token) * precision adjustment
@@ -174,7 +382,7 @@ async function fetchCurrentPrice(symbol: string): Promise<PriceFetchResult> {
 
     if (inAmount.isZero()) {
       logger.debug(`❌ Zero input amount for ${symbol} quote`);
-      return { success: false, price: new BN(0), symbol };
+      return { success: false, price: new BN(0), symbol, source: "quote" };
     }
 
     // Price = (outAmount / inAmount) * (10^inputDecimals / 10^outputDecimals) * 10^USDC_DECIMALS
@@ -182,36 +390,59 @@ async function fetchCurrentPrice(symbol: string): Promise<PriceFetchResult> {
     const priceNumerator = outAmount.mul(new BN(10 ** tokenDecimals));
     const priceBN = priceNumerator.div(inAmount);
 
-    // Convert to USD with USDC precision
-    const usdPrice = priceBN.toNumber() / 10 ** USDC_DECIMALS;
-
     logger.debug(
-      `💰 Jupiter price for ${symbol}: $${usdPrice.toFixed(6)} ` +
-      `(${data.inAmount} ${symbol} → ${data.outAmount} USDC, BN: ${priceBN.toString()})`
+      `💰 Jupiter price for ${symbol}: $${Decimal.fromUnits(priceBN, USDC_DECIMALS).toFixed(6)} ` +
+        `(${data.inAmount} ${symbol} → ${data.outAmount} USDC, BN: ${priceBN.toString()})`,
     );
 
-    return { success: true, price: priceBN, symbol };
-
+    return { success: true, price: priceBN, symbol, source: "quote" };
   } catch (error) {
     const details = getErrorDetails(error);
     logger.debug(`❌ Jupiter price fetch exception for ${symbol}: ${details.message}`);
-    return { success: false, price: new BN(0), symbol };
+    return { success: false, price: new BN(0), symbol, source: "quote" };
   }
 }
 
+/**
+ * Price lookup reading custody oracle prices first
+ * @param oraclePrices Oracle prices keyed by custody address
+ * @param quotePrices Whether the Jupiter Quote API may price markets without an oracle price
+ */
+function createPriceLookup(oraclePrices: OraclePriceMap, quotePrices: boolean): PriceLookup {
+  return async (market) => {
+    const oraclePrice = oraclePrices.get(market.custody);
+    if (oraclePrice) {
+      return oraclePrice;
+    }
+    if (!quotePrices) {
+      logger.warn(`⚠️ Oracle price unavailable for ${market.symbol}`);
+      return { success: false, price: new BN(0), symbol: market.symbol, source: "oracle" };
+    }
+
+    logger.warn(`⚠️ Oracle price unavailable for ${market.symbol}, falling back to Jupiter Quote API`);
+    return fetchQuotePrice(market);
+  };
+}
+
 // ========================================================================================
 // Position Account Operations
 // ========================================================================================
 
 /**
  * Fetch Jupiter position accounts for a user
+ * @param connection RPC connection
  * @param userAddress User's wallet address
+ * @param deployment Jupiter Perpetuals deployment (default: mainnet)
  * @returns Array of account data with metadata
  */
-async function fetchPositionAccounts(userAddress: string) {
+export async function fetchPositionAccounts(
+  connection: Connection,
+  userAddress: string,
+  deployment: JupiterDeployment = JUPITER_MAINNET,
+) {
   logger.info(`🎯 Fetching Jupiter position accounts for: ${userAddress}`);
 
-  const accountData = await RPC_CONNECTION.getProgramAccounts(JUPITER_PERPETUALS_PROGRAM.programId, {
+  const accountData = await connection.getProgramAccounts(deployment.programId, {
     commitment: "confirmed",
     filters: [
       {
@@ -233,12 +464,15 @@ async function fetchPositionAccounts(userAddress: string) {
 /**
  * Decode raw position account data
  * @param rawAccounts Array of raw account data
- * @returns Array of decoded position accounts
+ * @returns Decoded position accounts, plus a DECODE_ERROR issue per undecodable account
  */
-function decodePositionAccounts(rawAccounts: Awaited<ReturnType<typeof fetchPositionAccounts>>): DecodedPosition[] {
+export function decodePositionAccounts(rawAccounts: readonly RawPositionAccount[]): DecodedPositionAccounts {
   const decodedPositions: DecodedPosition[] = [];
+  const errors: FetchIssue[] = [];
 
   for (const item of rawAccounts) {
+    const publicKey = item.pubkey;
+
     try {
       const account = JUPITER_PERPETUALS_PROGRAM.coder.accounts.decode(
         "position",
@@ -246,17 +480,23 @@ function decodePositionAccounts(rawAccounts: Awaited<ReturnType<typeof fetchPosi
       ) as JupiterPositionAccount;
 
       decodedPositions.push({
-        publicKey: item.pubkey,
+        publicKey,
         account,
       });
     } catch (error) {
       const details = getErrorDetails(error);
-      logger.warn(`⚠️ Failed to decode position ${item.pubkey.toString()}: ${details.message}`);
+      logger.warn(`⚠️ Failed to decode position ${publicKey.toString()}: ${details.message}`);
+      errors.push(
+        new DecodeError(`Failed to decode position account: ${details.message}`, {
+          cause: error,
+          subject: publicKey.toBase58(),
+        }).toIssue(),
+      );
     }
   }
 
   logger.info(`✅ Successfully decoded ${decodedPositions.length} position accounts`);
-  return decodedPositions;
+  return { decoded: decodedPositions, errors };
 }
 
 /**
@@ -264,7 +504,7 @@ function decodePositionAccounts(rawAccounts: Awaited<ReturnType<typeof fetchPosi
  * @param positions Array of decoded positions
  * @returns Array of open positions
  */
-function filterOpenPositions(positions: DecodedPosition[]): DecodedPosition[] {
+export function filterOpenPositions(positions: DecodedPosition[]): DecodedPosition[] {
   const openPositions = positions.filter((position) => {
     const hasSize = position.account.sizeUsd?.gtn?.(0) ?? false;
     const sideString = JupiterSideHelpers.toString(position.account.side);
@@ -277,6 +517,41 @@ function filterOpenPositions(positions: DecodedPosition[]): DecodedPosition[] {
   return openPositions;
 }
 
+// ========================================================================================
+// Custody Account Operations
+// ========================================================================================
+
+/**
+ * Fetch and decode custody accounts
+ * @param connection RPC connection
+ * @param custodies Custody public keys (duplicates are fetched once)
+ * @returns Decoded custody accounts keyed by custody address
+ */
+async function fetchCustodyAccounts(connection: Connection, custodies: PublicKey[]): Promise<CustodyAccountMap> {
+  const uniqueKeys = [...new Set(custodies.map((custody) => custody.toBase58()))].map((key) => new PublicKey(key));
+  const accountInfos = await connection.getMultipleAccountsInfo(uniqueKeys, "confirmed");
+  const custodyAccounts: CustodyAccountMap = new Map();
+
+  accountInfos.forEach((info, index) => {
+    const key = uniqueKeys[index]?.toBase58();
+    if (!info || !key) {
+      logger.warn(`⚠️ Custody account not found: ${key}`);
+      return;
+    }
+
+    try {
+      const account = JUPITER_PERPETUALS_PROGRAM.coder.accounts.decode("custody", info.data) as JupiterCustodyAccount;
+      custodyAccounts.set(key, account);
+    } catch (error) {
+      const details = getErrorDetails(error);
+      logger.warn(`⚠️ Failed to decode custody ${key}: ${details.message}`);
+    }
+  });
+
+  logger.debug(`✅ Decoded ${custodyAccounts.size}/${uniqueKeys.length} custody accounts`);
+  return custodyAccounts;
+}
+
 // ========================================================================================
 // Position Processing
 // ========================================================================================
@@ -284,50 +559,64 @@ function filterOpenPositions(positions: DecodedPosition[]): DecodedPosition[] {
 /**
  * Calculate position metrics including PnL and leverage
  * @param position Position account data
- * @param marketSymbol Market symbol for price fetching
+ * @param market Market of the position asset, for price fetching
+ * @param getPrice Price lookup for the mark price
+ * @param custody Custody account of the position asset (fees are excluded when unavailable)
  * @returns Calculated position metrics
+ * @throws PriceUnavailableError when neither the oracle nor the Quote API has a price
  */
 async function calculatePositionMetrics(
   position: JupiterPositionAccount,
-  marketSymbol: string,
+  market: JupiterMarket,
+  getPrice: PriceLookup,
+  custody?: JupiterCustodyAccount,
 ): Promise<PositionMetrics> {
-  // Convert BN values to display format
-  const sizeUsd = position.sizeUsd.toNumber() / USD_PRECISION;
-  const collateralUsd = position.collateralUsd.toNumber() / USD_PRECISION;
-  const entryPrice = position.price.toNumber() / USD_PRECISION;
+  const marketSymbol = market.symbol;
+  // Convert BN values to exact decimals
+  const sizeUsd = toUsd(position.sizeUsd);
+  const collateralUsd = toUsd(position.collateralUsd);
+  const entryPrice = toUsd(position.price);
 
   // Calculate base asset amount
-  const baseAmount = entryPrice > 0 ? sizeUsd / entryPrice : 0;
-
-  // Fetch current market price
-  const priceResult = await fetchCurrentPrice(marketSymbol);
-  let markPrice = entryPrice;
-  let pnl = 0;
+  const baseAmount = entryPrice.isPositive() ? sizeUsd.div(entryPrice) : Decimal.ZERO;
+
+  // Calculate fees deducted on close
+  const borrowFeeBN = custody ? calculateBorrowFee(position, custody) : new BN(0);
+  const closeFeeBN = custody ? calculateCloseFee(position.sizeUsd, custody) : new BN(0);
+  const borrowFeeUsd = toUsd(borrowFeeBN);
+  const closeFeeUsd = toUsd(closeFeeBN);
+
+  // Calculate liquidation price
+  const liquidationPriceBN = custody ? calculateLiquidationPrice(position, custody, borrowFeeBN.add(closeFeeBN)) : null;
+  const liquidationPrice = liquidationPriceBN ? toUsd(liquidationPriceBN) : undefined;
+
+  // Use the oracle price, falling back to the Quote API where the network allows it
+  const priceResult = await getPrice(market);
+  if (!priceResult.success || !priceResult.price.gtn(0)) {
+    throw new PriceUnavailableError(`No oracle or quote price for ${marketSymbol}`, { subject: marketSymbol });
+  }
 
-  if (priceResult.success && priceResult.price.gtn(0)) {
-    // Use current price for mark price
-    markPrice = priceResult.price.toNumber() / 10 ** USDC_DECIMALS;
+  // Use current price for mark price
+  const markPrice = toUsd(priceResult.price);
+  const markPriceSource = priceResult.source;
 
-    // Calculate unrealized PnL using Jupiter's official method
-    const direction = JupiterSideHelpers.toString(position.side);
-    const positionSide = direction.toLowerCase() as "long" | "short";
+  // Calculate unrealized PnL using Jupiter's official method
+  const direction = JupiterSideHelpers.toString(position.side);
+  const positionSide = direction.toLowerCase() as "long" | "short";
 
-    const [hasProfit, pnlBN] = calculatePositionPnl(position.sizeUsd, position.price, positionSide, priceResult.price);
+  const [hasProfit, pnlBN] = calculatePositionPnl(position.sizeUsd, position.price, positionSide, priceResult.price);
 
-    pnl = (hasProfit ? pnlBN.toNumber() : -pnlBN.toNumber()) / USD_PRECISION;
+  const grossPnl = hasProfit ? toUsd(pnlBN) : toUsd(pnlBN).neg();
+  const pnl = grossPnl.sub(borrowFeeUsd).sub(closeFeeUsd);
 
-    logger.debug(
-      `📊 PnL calculated for ${marketSymbol}: ${hasProfit ? "+" : "-"}$${Math.abs(pnl).toFixed(4)} ` +
-        `(current: ${priceResult.price.toString()}, entry: ${position.price.toString()})`,
-    );
-  } else {
-    // Fallback to realized PnL if price fetch fails
-    pnl = position.realisedPnlUsd.toNumber() / USD_PRECISION;
-    logger.debug(`📊 Using realized PnL for ${marketSymbol}: $${pnl.toFixed(4)} (price unavailable)`);
-  }
+  logger.debug(
+    `📊 PnL calculated for ${marketSymbol}: ${hasProfit ? "+" : "-"}$${grossPnl.abs().toFixed(4)} ` +
+      `- borrow fee $${borrowFeeUsd.toFixed(4)} - close fee $${closeFeeUsd.toFixed(4)} ` +
+      `(current: ${priceResult.price.toString()}, entry: ${position.price.toString()})`,
+  );
 
   // Calculate leverage
-  const leverage = collateralUsd > 0 ? sizeUsd / collateralUsd : 1;
+  const leverage = collateralUsd.isPositive() ? sizeUsd.div(collateralUsd).toNumber() : 1;
 
   return {
     sizeUsd,
@@ -335,60 +624,213 @@ async function calculatePositionMetrics(
     entryPrice,
     baseAmount,
     markPrice,
+    markPriceSource,
     pnl,
+    borrowFeeUsd,
+    closeFeeUsd,
+    liquidationPrice,
     leverage,
   };
 }
 
+/**
+ * Describe the collateral of a position, without its token amount
+ * Longs are collateralized in the position asset and shorts in USDC or USDT; lockedAmount is held in the same token
+ * @param position Position account data
+ * @param markets Markets keyed by custody address
+ * @returns Collateral symbol, USD value and locked token amount
+ * @throws UnsupportedMarketError for a collateral custody that is not a known market
+ */
+export function getPositionCollateral(position: JupiterPositionAccount, markets: JupiterMarketMap): PositionCollateral {
+  const collateralKey = position.collateralCustody.toBase58();
+  const collateralMarket = markets.get(collateralKey);
+
+  if (!collateralMarket) {
+    throw new UnsupportedMarketError(`Unknown collateral custody ${collateralKey}`, { subject: collateralKey });
+  }
+
+  return {
+    symbol: collateralMarket.symbol,
+    usdValue: toUsd(position.collateralUsd),
+    lockedAmount: Decimal.fromUnits(position.lockedAmount, collateralMarket.decimals),
+    protocolCollateralId: collateralKey,
+  };
+}
+
+/**
+ * Price of the collateral token: the mark price when the position is collateralized in its own asset,
+ * otherwise the collateral custody oracle with the Quote API as fallback
+ * @returns Price in USD, or undefined when no price is available
+ */
+async function fetchCollateralPrice(
+  position: JupiterPositionAccount,
+  collateralMarket: JupiterMarket,
+  markPrice: Decimal,
+  getPrice: PriceLookup,
+): Promise<Decimal | undefined> {
+  if (position.collateralCustody.equals(position.custody)) {
+    return markPrice;
+  }
+
+  const priceResult = await getPrice(collateralMarket);
+  return priceResult.success && priceResult.price.gtn(0) ? toUsd(priceResult.price) : undefined;
+}
+
+/**
+ * Collateral details of a position, degraded to warnings when the collateral is unknown or has no price
+ * @param position Position account data
+ * @param markPrice Mark price of the position asset
+ * @param markets Markets keyed by custody address
+ * @param getPrice Price lookup for collateral in another token
+ */
+async function resolveCollateral(
+  position: JupiterPositionAccount,
+  markPrice: Decimal,
+  markets: JupiterMarketMap,
+  getPrice: PriceLookup,
+): Promise<ResolvedCollateral> {
+  let collateral: PositionCollateral;
+  try {
+    collateral = getPositionCollateral(position, markets);
+  } catch (error) {
+    logger.warn(`⚠️ Collateral unavailable: ${getErrorDetails(error).message}`);
+    return { warnings: [toFetchIssue(error)] };
+  }
+
+  // getPositionCollateral only succeeds for known collateral markets
+  const collateralMarket = markets.get(collateral.protocolCollateralId) as JupiterMarket;
+  const price = await fetchCollateralPrice(position, collateralMarket, markPrice, getPrice);
+  if (price === undefined) {
+    logger.warn(`⚠️ No price for collateral ${collateral.symbol}, token amount is unknown`);
+    return {
+      collateral,
+      warnings: [
+        new PriceUnavailableError(`No price for collateral ${collateral.symbol}: token amount is unknown`, {
+          subject: collateral.symbol,
+        }).toIssue(),
+      ],
+    };
+  }
+
+  return {
+    collateral: { ...collateral, tokenAmount: collateral.usdValue.div(price, collateralMarket.decimals) },
+    warnings: [],
+  };
+}
+
 /**
  * Convert Jupiter position account to standardized Position format
- * @param positionData Decoded position account
- * @returns Standardized Position object or null if invalid
+ * Callers pass open positions only (see filterOpenPositions)
+ * @param positionData Decoded open position account
+ * @param markets Markets keyed by custody address
+ * @param custodyAccounts Decoded custody accounts keyed by custody address
+ * @param getPrice Price lookup for mark and collateral prices
+ * @returns Standardized Position object with warnings about degraded data
+ * @throws UnsupportedMarketError for a custody that is not a known market
+ * @throws PriceUnavailableError when no mark price is available
  */
-async function processJupiterPosition(positionData: DecodedPosition): Promise<Position | null> {
+async function processJupiterPosition(
+  positionData: DecodedPosition,
+  markets: JupiterMarketMap,
+  custodyAccounts: CustodyAccountMap,
+  getPrice: PriceLookup,
+): Promise<ProcessedPosition> {
   const { account: position } = positionData;
+  const warnings: FetchIssue[] = [];
 
-  try {
-    // Find market configuration by custody address
-    const marketInfo = JUPITER_MARKETS.find((market) => market.custody === position.custody.toString());
+  // Find market configuration by custody address
+  const custodyKey = position.custody.toBase58();
+  const marketInfo = markets.get(custodyKey);
 
-    if (!marketInfo) {
-      logger.warn(`⚠️ Unknown market custody: ${position.custody.toString()}`);
-      return null;
-    }
+  if (!marketInfo) {
+    logger.warn(`⚠️ Unknown market custody: ${custodyKey}`);
+    throw new UnsupportedMarketError(`Unknown market custody ${custodyKey}`, {
+      subject: positionData.publicKey.toBase58(),
+    });
+  }
 
-    // Get position direction
-    const direction = JupiterSideHelpers.toString(position.side);
-    if (direction === "NONE") {
-      return null; // Skip closed positions
-    }
+  // Get position direction
+  const direction = JupiterSideHelpers.toString(position.side) as Position["direction"];
 
-    // Calculate all position metrics
-    const metrics = await calculatePositionMetrics(position, marketInfo.symbol);
+  const custody = custodyAccounts.get(custodyKey);
+  if (!custody) {
+    logger.warn(
+      `⚠️ Custody account unavailable for ${marketInfo.symbol}, PnL excludes fees and liquidation price is unknown`,
+    );
+    warnings.push(
+      new AccountNotFoundError(
+        `Custody account unavailable for ${marketInfo.symbol}: PnL excludes fees and liquidation price is unknown`,
+        { subject: custodyKey },
+      ).toIssue(),
+    );
+  }
 
-    // Log position summary
-    logger.debug(
-      `✅ ${marketInfo.symbol}: $${metrics.entryPrice.toFixed(2)} → $${metrics.markPrice.toFixed(2)}, ` +
-        `Size: $${metrics.sizeUsd.toFixed(2)}, Base: ${metrics.baseAmount.toFixed(4)}, ` +
-        `PnL: $${metrics.pnl.toFixed(4)}, Leverage: ${metrics.leverage.toFixed(CONFIG.LEVERAGE_PRECISION)}x, ${direction}`,
+  // Calculate all position metrics
+  const metrics = await calculatePositionMetrics(position, marketInfo, getPrice, custody);
+  if (metrics.markPriceSource === "quote") {
+    warnings.push(
+      new PriceUnavailableError(`Oracle price unavailable for ${marketInfo.symbol}: marked with a swap quote`, {
+        subject: marketInfo.symbol,
+      }).toIssue(),
     );
+  }
 
-    return {
+  const { collateral, warnings: collateralWarnings } = await resolveCollateral(
+    position,
+    metrics.markPrice,
+    markets,
+    getPrice,
+  );
+  warnings.push(...collateralWarnings);
+
+  const liquidationDistancePercent =
+    metrics.liquidationPrice !== undefined
+      ? calculateLiquidationDistancePercent(metrics.markPrice, metrics.liquidationPrice, direction)
+      : undefined;
+
+  // Log position summary
+  logger.debug(
+    `✅ ${marketInfo.symbol}: $${metrics.entryPrice.toFixed(2)} → $${metrics.markPrice.toFixed(2)}, ` +
+      `Size: $${metrics.sizeUsd.toFixed(2)}, Base: ${metrics.baseAmount.toFixed(4)}, ` +
+      `PnL: $${metrics.pnl.toFixed(4)}, Leverage: ${metrics.leverage.toFixed(CONFIG.LEVERAGE_PRECISION)}x, ${direction}, ` +
+      `Liq: $${metrics.liquidationPrice?.toFixed(2) ?? "n/a"} (${liquidationDistancePercent?.toFixed(2) ?? "n/a"}%), ` +
+      `Collateral: ${collateral?.tokenAmount?.toFixed(4) ?? "n/a"} ${collateral?.symbol ?? ""}`,
+  );
+
+  return {
+    position: {
+      schemaVersion: POSITION_SCHEMA_VERSION,
+      protocol: PROTOCOL_ID,
+      owner: position.owner.toBase58(),
+      accountAddress: positionData.publicKey.toBase58(),
       symbol: marketInfo.symbol,
       sizeUsd: metrics.sizeUsd,
       baseAmount: metrics.baseAmount,
-      direction: direction as "LONG" | "SHORT",
+      direction,
       pnl: metrics.pnl,
       entryPrice: metrics.entryPrice,
       markPrice: metrics.markPrice,
+      markPriceSource: metrics.markPriceSource,
       leverage: Number(metrics.leverage.toFixed(CONFIG.LEVERAGE_PRECISION)),
-      protocolMarketId: position.custody.toString(),
-    };
-  } catch (error) {
-    const details = getErrorDetails(error);
-    logger.error(`❌ Position processing error: ${details.message}`);
-    return null;
-  }
+      liquidationPrice: metrics.liquidationPrice,
+      liquidationDistancePercent,
+      protocolMarketId: custodyKey,
+      openedAt: toIsoTimestamp(position.openTime),
+      updatedAt: toIsoTimestamp(position.updateTime),
+      // Fees are unknown without the custody account
+      fees: custody ? { borrowUsd: metrics.borrowFeeUsd, closeUsd: metrics.closeFeeUsd } : undefined,
+      collateral,
+    },
+    warnings,
+  };
+}
+
+/**
+ * Convert an on-chain unix timestamp (seconds) to ISO 8601
+ * @returns ISO timestamp, or undefined for an unset (zero) timestamp
+ */
+function toIsoTimestamp(seconds: BN): string | undefined {
+  return seconds.gtn(0) ? new Date(seconds.toNumber() * 1000).toISOString() : undefined;
 }
 
 // ========================================================================================
@@ -397,44 +839,227 @@ async function processJupiterPosition(positionData: DecodedPosition): Promise<Po
 
 /**
  * Get user positions from Jupiter Perpetuals protocol
+ * On a network without a Jupiter Perpetuals deployment, no positions are returned and a warning is reported
  * @param userAddress User's wallet address
- * @returns Array of standardized Position objects
+ * @param rpcUrl Solana RPC URL (default: the network's endpoints)
+ * @param network Network profile (default: DEFAULT_NETWORK)
+ * @returns Standardized positions with the accounts and positions that had to be skipped
+ * @throws PositionFetchError subclass when the position accounts cannot be fetched
  */
-export async function getJupiterPositions(userAddress: string): Promise<Position[]> {
-  try {
-    // Step 1: Fetch raw position accounts
-    const rawAccounts = await fetchPositionAccounts(userAddress);
+export async function getJupiterPositions(
+  userAddress: string,
+  rpcUrl?: string,
+  network?: NetworkId,
+): Promise<PositionFetchResult> {
+  const profile = getNetworkProfile(network);
+  if (!profile.jupiter) {
+    logger.info(`ℹ️ Jupiter Perpetuals is not deployed on ${profile.id}`);
+    return { positions: [], warnings: [createNotDeployedError(profile.id).toIssue()], errors: [] };
+  }
+  const connection = getConnection(rpcUrl, network);
 
-    if (rawAccounts.length === 0) {
-      logger.info(`⚠️ No Jupiter positions found for: ${userAddress}`);
-      return [];
-    }
+  // Step 1: Fetch raw position accounts
+  const rawAccounts = await fetchPositionAccounts(connection, userAddress, profile.jupiter);
 
-    // Step 2: Decode position data
-    const decodedPositions = decodePositionAccounts(rawAccounts);
+  if (rawAccounts.length === 0) {
+    logger.info(`⚠️ No Jupiter positions found for: ${userAddress}`);
+    return { positions: [], warnings: [], errors: [] };
+  }
 
-    // Step 3: Filter for open positions
-    const openPositions = filterOpenPositions(decodedPositions);
+  // Step 2: Decode position data
+  const { decoded, errors: decodeErrors } = decodePositionAccounts(rawAccounts);
 
-    if (openPositions.length === 0) {
-      logger.info(`ℹ️ No open Jupiter positions for: ${userAddress}`);
-      return [];
-    }
+  // Step 3: Filter for open positions
+  const openPositions = filterOpenPositions(decoded);
 
-    // Step 4: Process positions in parallel
-    const processedPositions = await Promise.all(openPositions.map(processJupiterPosition));
+  if (openPositions.length === 0) {
+    logger.info(`ℹ️ No open Jupiter positions for: ${userAddress}`);
+    return { positions: [], warnings: [], errors: decodeErrors };
+  }
 
-    // Step 5: Filter out failed processing results
-    const validPositions = processedPositions.filter((position): position is Position => position !== null);
+  // Steps 4-7: Price, process and collect positions
+  const result = await buildPositions(connection, openPositions, profile.jupiter, profile.quotePrices);
 
-    logger.info(
-      `🎉 Successfully processed ${validPositions.length}/${openPositions.length} Jupiter positions for: ${userAddress}`,
-    );
+  logger.info(
+    `🎉 Successfully processed ${result.positions.length}/${openPositions.length} Jupiter positions for: ${userAddress}`,
+  );
+
+  return { ...result, errors: [...decodeErrors, ...result.errors] };
+}
+
+/**
+ * Watch user positions from Jupiter Perpetuals
+ * Subscribes to the owner's position accounts, so opened, changed and closed positions are all emitted
+ * @param userAddress User wallet address
+ * @param onUpdate Listener receiving the full set of open positions
+ * @param rpcUrl Optional RPC endpoint; its websocket endpoint is derived by web3.js
+ * @param network Network profile (default: DEFAULT_NETWORK)
+ * @returns Subscription; refresh() re-reads accounts and prices, close() removes the websocket listener
+ * @throws AccountNotFoundError on a network without a Jupiter Perpetuals deployment
+ */
+export async function watchJupiterPositions(
+  userAddress: string,
+  onUpdate: PositionListener,
+  rpcUrl?: string,
+  network?: NetworkId,
+): Promise<PositionSubscription> {
+  logger.info(`👀 Starting Jupiter position watch for: ${userAddress}`);
+
+  const profile = getNetworkProfile(network);
+  const deployment = profile.jupiter;
+  if (!deployment) {
+    throw createNotDeployedError(profile.id);
+  }
+  const connection = getConnection(rpcUrl, network);
+  const positions = new Map<string, DecodedPosition>();
+  let closed = false;
+  let latestEmit = 0;
+
+  // Emits overlap when accounts change faster than prices are fetched: only the latest one may publish,
+  // so an older position set never follows a newer one
+  const emit = async () => {
+    const emitId = ++latestEmit;
+    const openPositions = filterOpenPositions([...positions.values()]);
+    const result = await buildPositions(connection, openPositions, deployment, profile.quotePrices);
+    if (closed || emitId !== latestEmit) return;
+    onUpdate(result.positions);
+  };
+
+  const refresh = async () => {
+    const { decoded } = decodePositionAccounts(await fetchPositionAccounts(connection, userAddress, deployment));
+    positions.clear();
+    for (const position of decoded) {
+      positions.set(position.publicKey.toBase58(), position);
+    }
+    await emit();
+  };
+
+  const subscriptionId = connection.onProgramAccountChange(
+    deployment.programId,
+    ({ accountId, accountInfo }) => {
+      const [decoded] = decodePositionAccounts([{ pubkey: accountId, account: accountInfo }]).decoded;
+      const key = accountId.toBase58();
+
+      if (decoded) {
+        positions.set(key, decoded);
+      } else {
+        positions.delete(key);
+      }
+
+      emit().catch((error) => logger.error(`❌ Jupiter refresh failed: ${getErrorDetails(error).message}`));
+    },
+    "confirmed",
+    [
+      { memcmp: { bytes: new PublicKey(userAddress).toBase58(), offset: CONFIG.USER_ADDRESS_OFFSET } },
+      { memcmp: JUPITER_PERPETUALS_PROGRAM.coder.accounts.memcmp("position") },
+    ],
+  );
+
+  const close = () => {
+    closed = true;
+    return connection.removeProgramAccountChangeListener(subscriptionId);
+  };
 
-    return validPositions;
+  try {
+    await refresh();
   } catch (error) {
-    const details = getErrorDetails(error);
-    logger.error(`❌ Jupiter position fetch failed for ${userAddress}: ${details.message}`);
-    return [];
+    await close();
+    throw error;
+  }
+
+  return { refresh, close };
+}
+
+/**
+ * Price and process open positions
+ * @param connection RPC connection
+ * @param openPositions Decoded open positions
+ * @param deployment Jupiter Perpetuals deployment the positions belong to
+ * @param quotePrices Whether the Jupiter Quote API may price markets without an oracle price
+ * @returns Successfully processed positions; positions that failed processing are reported as errors
+ */
+async function buildPositions(
+  connection: Connection,
+  openPositions: DecodedPosition[],
+  deployment: JupiterDeployment,
+  quotePrices: boolean,
+): Promise<PositionFetchResult> {
+  if (openPositions.length === 0) {
+    return { positions: [], warnings: [], errors: [] };
+  }
+
+  // Resolve markets from the JLP pool (static table when the pool is unreadable)
+  const { markets, warnings: marketWarnings } = await loadJupiterMarkets(connection, deployment);
+
+  // Fetch position and collateral custody accounts for fee calculation and collateral prices
+  const custodyAccounts = await fetchCustodyAccounts(
+    connection,
+    openPositions.flatMap((position) => [position.account.custody, position.account.collateralCustody]),
+  );
+
+  // Read mark and collateral prices from the custody oracles
+  const oraclePrices = await fetchOraclePrices(connection, custodyAccounts, markets);
+  const getPrice = createPriceLookup(oraclePrices, quotePrices);
+
+  // Process positions in parallel
+  const results = await Promise.allSettled(
+    openPositions.map((position) => processJupiterPosition(position, markets, custodyAccounts, getPrice)),
+  );
+
+  // Split processed positions from failures
+  const result: PositionFetchResult = { positions: [], warnings: [...marketWarnings], errors: [] };
+  for (const settled of results) {
+    if (settled.status === "fulfilled") {
+      result.positions.push(settled.value.position);
+      result.warnings.push(...settled.value.warnings);
+    } else {
+      logger.error(`❌ Position processing error: ${getErrorDetails(settled.reason).message}`);
+      result.errors.push(toFetchIssue(settled.reason));
+    }
   }
+  return result;
 }
+
+/**
+ * Shared default connection, or a pooled connection for an endpoint override or another network
+ */
+function getConnection(rpcUrl?: string, network?: NetworkId): Connection {
+  return rpcUrl || network ? createRpcConnection(rpcUrl, network) : RPC_CONNECTION;
+}
+
+function createNotDeployedError(network: NetworkId): AccountNotFoundError {
+  return new AccountNotFoundError(`Jupiter Perpetuals is not deployed on ${network}`, { subject: network });
+}
+
+// ========================================================================================
+// Adapter Registration
+// ========================================================================================
+
+/**
+ * Jupiter Perpetuals protocol adapter
+ */
+export const jupiterAdapter: PerpProtocolAdapter = {
+  id: PROTOCOL_ID,
+  displayName: "Jupiter Perps",
+  capabilities: {
+    subAccounts: false,
+    crossMargin: false,
+    liquidationPrice: true,
+    feesInPnl: true,
+    funding: false,
+  },
+  fetchPositions: (owner, options?: FetchPositionsOptions) =>
+    getJupiterPositions(owner, options?.rpcUrl, options?.network),
+  watchPositions: (owner, onUpdate, options?: FetchPositionsOptions) =>
+    watchJupiterPositions(owner, onUpdate, options?.rpcUrl, options?.network),
+  calculatePnlAtPrice: calculateJupiterPnlAtPrice,
+  listMarkets: async (options?: FetchPositionsOptions): Promise<MarketInfo[]> => {
+    const deployment = getNetworkProfile(options?.network).jupiter;
+    if (!deployment) return [];
+
+    const { markets } = await loadJupiterMarkets(getConnection(options?.rpcUrl, options?.network), deployment);
+    return [...markets.values()].map((market) => ({ symbol: market.symbol, protocolMarketId: market.custody }));
+  },
+};
+
+registerAdapter(jupiterAdapter);
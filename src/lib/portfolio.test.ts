@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import type { AccountMargin, Position, SpotBalance } from "../types";
+import { Decimal } from "../utils";
+import { buildPortfolio } from "./portfolio";
+
+const d = Decimal.parse;
+
+const OWNER = "86oHY5tUBn4gqHSQAZJSUX6MU7WJVpg8bn8MZ4jKEb63";
+const DRIFT_ACCOUNT = "5BUwFW4nRbftYTDMbgxykoFWqWHPzahFSNAaaaJtVKsq";
+
+const ACCOUNT_MARGIN: AccountMargin = {
+  health: 90,
+  netAssetValue: d("1250"),
+  totalCollateral: d("1200"),
+  maintenanceMarginRequirement: d("75"),
+  initialMarginRequirement: d("150"),
+  freeCollateral: d("1050"),
+  leverage: 1.2,
+};
+
+/** Drift SOL short hedged by the SOL deposit below */
+const SOL_SHORT: Position = {
+  schemaVersion: 2,
+  protocol: "drift",
+  owner: OWNER,
+  accountAddress: DRIFT_ACCOUNT,
+  symbol: "SOL",
+  sizeUsd: d("1500"),
+  baseAmount: d("10"),
+  direction: "SHORT",
+  pnl: d("-20"),
+  entryPrice: d("148"),
+  markPrice: d("150"),
+  leverage: 1.2,
+  protocolMarketId: "0",
+  subAccountId: 0,
+  accountMargin: ACCOUNT_MARGIN,
+};
+
+const spotBalance = (symbol: string, side: SpotBalance["side"], tokenAmount: string, price: string): SpotBalance => ({
+  protocol: "drift",
+  owner: OWNER,
+  accountAddress: DRIFT_ACCOUNT,
+  symbol,
+  side,
+  tokenAmount: d(tokenAmount),
+  usdValue: d(tokenAmount).mul(d(price)),
+  price: d(price),
+  depositAprPercent: 2.5,
+  borrowAprPercent: 6,
+  protocolMarketId: symbol === "SOL" ? "1" : "0",
+  subAccountId: 0,
+  accountMargin: ACCOUNT_MARGIN,
+});
+
+describe("buildPortfolio", () => {
+  test("nets spot balances into the symbol exposure and counts account equity once", () => {
+    const portfolio = buildPortfolio([
+      {
+        owner: OWNER,
+        results: [
+          {
+            adapterId: "drift",
+            displayName: "Drift Protocol",
+            durationMs: 1,
+            status: "fulfilled",
+            positions: [SOL_SHORT],
+            spotBalances: [spotBalance("SOL", "DEPOSIT", "10", "150"), spotBalance("USDC", "BORROW", "250", "1")],
+            warnings: [],
+            errors: [],
+          },
+        ],
+      },
+    ]);
+
+    expect(portfolio.spotBalances).toHaveLength(2);
+    expect(portfolio.totals.netSpotUsd.toString()).toBe("1250");
+    expect(portfolio.totals.accountEquity.toString()).toBe("1250");
+
+    const [sol, usdc] = portfolio.rollups.bySymbol;
+    expect(sol?.key).toBe("SOL");
+    expect(sol?.netBaseAmount?.toString()).toBe("0");
+    expect(sol?.averageEntryPrice?.toString()).toBe("148");
+    expect(usdc).toMatchObject({ key: "USDC", positionCount: 0, spotBalanceCount: 1 });
+    expect(usdc?.netBaseAmount?.toString()).toBe("-250");
+    expect(usdc?.averageEntryPrice).toBeUndefined();
+  });
+});
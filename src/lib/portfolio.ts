@@ -0,0 +1,174 @@
+import type {
+  AdapterFetchResult,
+  FetchFailure,
+  FetchPositionsOptions,
+  Portfolio,
+  PortfolioRollup,
+  Position,
+  ProtocolId,
+  SpotBalance,
+} from "../types";
+import {
+  calculatePortfolioTotals,
+  Decimal,
+  getErrorDetails,
+  getSignedSpotAmounts,
+  logger,
+  toPositionFetchError,
+} from "../utils";
+import { fetchAllPositions } from "./registry";
+
+/**
+ * Multi-wallet portfolio aggregation
+ * Positions and spot balances of every wallet are fetched through the adapter registry and rolled up by wallet,
+ * protocol and symbol; spot balances count towards the net base amount of their token
+ */
+
+/** Adapter results for one wallet; error is set when the wallet could not be queried at all */
+export interface WalletFetchResult {
+  owner: string;
+  results: AdapterFetchResult[];
+  error?: unknown;
+}
+
+/**
+ * Fetch positions of every wallet
+ * Wallets are fetched one after another to stay within public RPC rate limits; a failing wallet does not stop the others
+ * @param owners Wallet addresses
+ * @param protocolIds Adapters to query (default: all registered)
+ * @param options Options passed to every adapter
+ */
+export async function fetchWalletResults(
+  owners: string[],
+  protocolIds?: ProtocolId[],
+  options?: FetchPositionsOptions,
+): Promise<WalletFetchResult[]> {
+  const walletResults: WalletFetchResult[] = [];
+
+  for (const owner of owners) {
+    try {
+      const results = await fetchAllPositions(owner, protocolIds, options);
+      for (const result of results) {
+        if (result.status === "fulfilled") {
+          const skipped = result.errors.length > 0 ? `, ${result.errors.length} skipped` : "";
+          logger.info(
+            `✅ ${result.displayName}: ${result.positions.length} positions${skipped} for ${owner} (${result.durationMs}ms)`,
+          );
+        }
+      }
+      walletResults.push({ owner, results });
+    } catch (error) {
+      logger.error(`❌ Position fetch failed for ${owner}: ${getErrorDetails(error).message}`);
+      walletResults.push({ owner, results: [], error });
+    }
+  }
+
+  return walletResults;
+}
+
+/**
+ * Build a portfolio from per-wallet fetch results
+ */
+export function buildPortfolio(walletResults: WalletFetchResult[]): Portfolio {
+  const fulfilled = walletResults.flatMap(({ results }) => results.filter((result) => result.status === "fulfilled"));
+  const positions = fulfilled.flatMap((result) => result.positions);
+  const spotBalances = fulfilled.flatMap((result) => result.spotBalances ?? []);
+
+  return {
+    owners: walletResults.map(({ owner }) => owner),
+    positions,
+    spotBalances,
+    failures: collectFailures(walletResults),
+    warnings: collectWarnings(walletResults),
+    totals: calculatePortfolioTotals(positions, spotBalances),
+    rollups: {
+      byWallet: rollupBy(positions, spotBalances, (item) => item.owner),
+      byProtocol: rollupBy(positions, spotBalances, (item) => item.protocol),
+      bySymbol: rollupBy(positions, spotBalances, (item) => item.symbol),
+    },
+  };
+}
+
+/**
+ * Fetch positions of every wallet and aggregate them
+ */
+export async function fetchPortfolio(
+  owners: string[],
+  protocolIds?: ProtocolId[],
+  options?: FetchPositionsOptions,
+): Promise<Portfolio> {
+  return buildPortfolio(await fetchWalletResults(owners, protocolIds, options));
+}
+
+/**
+ * Group positions and spot balances and aggregate each group, keeping first-seen group order
+ */
+export function rollupBy(
+  positions: Position[],
+  spotBalances: SpotBalance[],
+  getKey: (item: Position | SpotBalance) => string,
+): PortfolioRollup[] {
+  const groups = new Map<string, { positions: Position[]; spotBalances: SpotBalance[] }>();
+  const getGroup = (key: string) => {
+    const group = groups.get(key) ?? { positions: [], spotBalances: [] };
+    groups.set(key, group);
+    return group;
+  };
+  for (const position of positions) {
+    getGroup(getKey(position)).positions.push(position);
+  }
+  for (const balance of spotBalances) {
+    getGroup(getKey(balance)).spotBalances.push(balance);
+  }
+
+  return [...groups.entries()].map(([key, group]) => ({
+    key,
+    ...aggregateGroup(group.positions, group.spotBalances),
+  }));
+}
+
+function aggregateGroup(positions: Position[], spotBalances: SpotBalance[]): Omit<PortfolioRollup, "key"> {
+  const totals = calculatePortfolioTotals(positions, spotBalances);
+  const isSingleSymbol = new Set([...positions, ...spotBalances].map((item) => item.symbol)).size === 1;
+  if (!isSingleSymbol) {
+    return totals;
+  }
+
+  const grossBaseAmount = Decimal.sum(positions.map((pos) => pos.baseAmount));
+  return {
+    ...totals,
+    netBaseAmount: Decimal.sum([
+      ...positions.map((pos) => (pos.direction === "LONG" ? pos.baseAmount : pos.baseAmount.neg())),
+      ...spotBalances.map((balance) => getSignedSpotAmounts(balance).tokenAmount),
+    ]),
+    averageEntryPrice: grossBaseAmount.isPositive()
+      ? Decimal.sum(positions.map((pos) => pos.entryPrice.mul(pos.baseAmount))).div(grossBaseAmount)
+      : undefined,
+  };
+}
+
+/**
+ * Failed wallets and adapters, plus the positions skipped by adapters that succeeded
+ */
+function collectFailures(walletResults: WalletFetchResult[]): FetchFailure[] {
+  return walletResults.flatMap(({ owner, results, error }) => {
+    if (error !== undefined) {
+      return [{ owner, ...toPositionFetchError(error).toIssue() }];
+    }
+    return results.flatMap((result) =>
+      result.status === "rejected"
+        ? [{ owner, protocol: result.adapterId, ...result.error.toIssue() }]
+        : result.errors.map((issue) => ({ owner, protocol: result.adapterId, ...issue })),
+    );
+  });
+}
+
+function collectWarnings(walletResults: WalletFetchResult[]): FetchFailure[] {
+  return walletResults.flatMap(({ owner, results }) =>
+    results.flatMap((result) =>
+      result.status === "fulfilled"
+        ? result.warnings.map((issue) => ({ owner, protocol: result.adapterId, ...issue }))
+        : [],
+    ),
+  );
+}
@@ -0,0 +1,77 @@
+import { BN, BorshAccountsCoder } from "@coral-xyz/anchor";
+import { USDC_DECIMALS } from "../constants";
+
+// ========================================================================================
+// Constants
+// ========================================================================================
+
+/** Pyth pull oracle `PriceUpdateV2` account layout offsets */
+const LAYOUT = {
+  /** Anchor account discriminator size */
+  DISCRIMINATOR_SIZE: 8,
+  /** Write authority public key size */
+  WRITE_AUTHORITY_SIZE: 32,
+  /** Verification level enum tag: 0 = Partial { num_signatures: u8 }, 1 = Full */
+  VERIFICATION_PARTIAL: 0,
+  /** Feed id size inside the price message */
+  FEED_ID_SIZE: 32,
+} as const;
+
+const PRICE_UPDATE_DISCRIMINATOR = BorshAccountsCoder.accountDiscriminator("PriceUpdateV2");
+
+// ========================================================================================
+// Types
+// ========================================================================================
+
+/** Decoded Pyth price normalized to USD precision */
+export interface PythPrice {
+  /** Price in USD (as BN, 6 decimal precision) */
+  price: BN;
+  /** Confidence interval in USD (as BN, 6 decimal precision) */
+  confidence: BN;
+  /** Unix timestamp of the price */
+  publishTime: number;
+}
+
+// ========================================================================================
+// Decoding
+// ========================================================================================
+
+/**
+ * Decode a Pyth pull oracle `PriceUpdateV2` account
+ * @param data Raw account data
+ * @returns Price normalized to USD precision
+ * @throws Error if the account is not a `PriceUpdateV2` account
+ */
+export function decodePythPriceUpdate(data: Buffer): PythPrice {
+  if (!data.subarray(0, LAYOUT.DISCRIMINATOR_SIZE).equals(PRICE_UPDATE_DISCRIMINATOR)) {
+    throw new Error("Not a Pyth PriceUpdateV2 account");
+  }
+
+  let offset = LAYOUT.DISCRIMINATOR_SIZE + LAYOUT.WRITE_AUTHORITY_SIZE;
+  const verificationLevel = data.readUInt8(offset);
+  offset += verificationLevel === LAYOUT.VERIFICATION_PARTIAL ? 2 : 1;
+  offset += LAYOUT.FEED_ID_SIZE;
+
+  const rawPrice = data.readBigInt64LE(offset);
+  const rawConfidence = data.readBigUInt64LE(offset + 8);
+  const exponent = data.readInt32LE(offset + 16);
+  const publishTime = Number(data.readBigInt64LE(offset + 20));
+
+  return {
+    price: scaleToUsdPrecision(new BN(rawPrice.toString()), exponent),
+    confidence: scaleToUsdPrecision(new BN(rawConfidence.toString()), exponent),
+    publishTime,
+  };
+}
+
+/**
+ * Rescale a Pyth fixed-point value (value * 10^exponent) to USD precision
+ */
+function scaleToUsdPrecision(value: BN, exponent: number): BN {
+  const shift = USDC_DECIMALS + exponent;
+  if (shift >= 0) {
+    return value.mul(new BN(10).pow(new BN(shift)));
+  }
+  return value.div(new BN(10).pow(new BN(-shift)));
+}
@@ -0,0 +1,91 @@
+import type { AdapterFetchResult, FetchPositionsOptions, PerpProtocolAdapter, ProtocolId } from "../types";
+import { filterValidPositions, logger, toPositionFetchError } from "../utils";
+
+/**
+ * Protocol adapter registry
+ * Protocol modules register their adapter at import time; the runner queries every enabled adapter concurrently
+ */
+const adapters = new Map<ProtocolId, PerpProtocolAdapter>();
+
+/**
+ * Register a protocol adapter
+ * @throws Error if an adapter with the same id is already registered
+ */
+export function registerAdapter(adapter: PerpProtocolAdapter): void {
+  if (adapters.has(adapter.id)) {
+    throw new Error(`Adapter already registered: ${adapter.id}`);
+  }
+  adapters.set(adapter.id, adapter);
+}
+
+/**
+ * Get a registered adapter by id
+ */
+export function getAdapter(id: ProtocolId): PerpProtocolAdapter | undefined {
+  return adapters.get(id);
+}
+
+/**
+ * Get registered adapters, optionally restricted to the given ids
+ * @throws Error if a requested id is not registered
+ */
+export function getAdapters(ids?: ProtocolId[]): PerpProtocolAdapter[] {
+  if (!ids) {
+    return [...adapters.values()];
+  }
+
+  return ids.map((id) => {
+    const adapter = adapters.get(id);
+    if (!adapter) {
+      throw new Error(`Unknown protocol: ${id} (available: ${[...adapters.keys()].join(", ")})`);
+    }
+    return adapter;
+  });
+}
+
+/**
+ * Fetch positions from all enabled adapters concurrently
+ * A failing adapter is reported in its own result, with its error normalized to a PositionFetchError,
+ * and does not abort the others. Positions that do not match the Position schema are moved to the errors.
+ * @param owner Wallet address
+ * @param protocolIds Adapters to query (default: all registered)
+ * @param options Options passed to every adapter
+ * @returns One result per adapter, in registration order
+ */
+export async function fetchAllPositions(
+  owner: string,
+  protocolIds?: ProtocolId[],
+  options?: FetchPositionsOptions,
+): Promise<AdapterFetchResult[]> {
+  return Promise.all(getAdapters(protocolIds).map((adapter) => fetchAdapterPositions(adapter, owner, options)));
+}
+
+async function fetchAdapterPositions(
+  adapter: PerpProtocolAdapter,
+  owner: string,
+  options?: FetchPositionsOptions,
+): Promise<AdapterFetchResult> {
+  const startedAt = Date.now();
+  const base = { adapterId: adapter.id, displayName: adapter.displayName };
+
+  try {
+    logger.info(`🚀 Starting ${adapter.displayName} position fetch...`);
+    const result = await adapter.fetchPositions(owner, options);
+    const { positions, errors } = filterValidPositions(result.positions);
+    return {
+      ...base,
+      durationMs: Date.now() - startedAt,
+      status: "fulfilled",
+      ...result,
+      positions,
+      errors: [...result.errors, ...errors],
+    };
+  } catch (error) {
+    const fetchError = toPositionFetchError(error);
+    logger.error(`❌ ${adapter.displayName} position fetch failed [${fetchError.code}]: ${fetchError.message}`);
+    if (fetchError.hint) {
+      logger.error(`→ ${fetchError.hint}`);
+    }
+    return { ...base, durationMs: Date.now() - startedAt, status: "rejected", error: fetchError };
+  }
+}
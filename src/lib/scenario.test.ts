@@ -0,0 +1,141 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { createRpcConnection } from "../constants";
+import { subscribeDriftClient, subscribeDriftUser } from "../testing/drift";
+import { createPosition, TEST_OWNER } from "../testing/fixtures";
+import { FIXTURE_RPC_URL, useFixtureHttp } from "../testing/replay";
+import type { Position, PositionFetchResult, SpotBalance } from "../types";
+import { AccountNotFoundError, Decimal } from "../utils";
+import { collectUserPositions } from "./drift";
+import { expandShockGrid, formatScenarioName, runScenario } from "./scenario";
+// Register the adapters whose PnL math the scenarios use
+import "./drift";
+import "./jupiter";
+
+const d = Decimal.parse;
+
+// 5000 USD long opened at 100 (Jupiter sizes are entry notional), now at 110, with 4 USD of fees to pay on close
+const JUPITER_SOL_LONG = createPosition("jupiter", "SOL", "LONG", {
+  sizeUsd: d("5000"),
+  baseAmount: d("50"),
+  entryPrice: d("100"),
+  markPrice: d("110"),
+  pnl: d("496"),
+  liquidationPrice: d("82"),
+  fees: { borrowUsd: d("1.5"), closeUsd: d("2.5") },
+  collateral: { symbol: "SOL", usdValue: d("1000"), lockedAmount: d("50"), protocolCollateralId: "custody" },
+});
+
+// Drift positions are repriced from the accounts they were fetched from, so they come from the replayed sub-accounts:
+// 0 holds a 25 SOL long on a USDC deposit, 1 a 12.5 SOL short on a SOL deposit and a USDC borrow (SOL at 178.419831)
+useFixtureHttp();
+
+let driftLong: Position;
+let driftShort: Position;
+let longAccountBalances: SpotBalance[];
+let shortAccountBalances: SpotBalance[];
+
+beforeAll(async () => {
+  const driftClient = await subscribeDriftClient(createRpcConnection(FIXTURE_RPC_URL));
+  const fetchSubAccount = async (subAccountId: number): Promise<PositionFetchResult> => {
+    const user = await subscribeDriftUser(driftClient, TEST_OWNER, subAccountId);
+    try {
+      return await collectUserPositions(driftClient, user);
+    } finally {
+      await user.unsubscribe();
+    }
+  };
+
+  try {
+    const long = await fetchSubAccount(0);
+    const short = await fetchSubAccount(1);
+    if (!long.positions[0] || !short.positions[0]) throw new Error("fixture sub-accounts have no positions");
+    [driftLong, driftShort] = [long.positions[0], short.positions[0]];
+    [longAccountBalances, shortAccountBalances] = [long.spotBalances ?? [], short.spotBalances ?? []];
+  } finally {
+    await driftClient.unsubscribe();
+  }
+});
+
+describe("runScenario", () => {
+  test("reproduces the fetched PnL without price moves", () => {
+    const result = runScenario([JUPITER_SOL_LONG, driftLong], longAccountBalances, {});
+
+    expect(result.name).toBe("base");
+    expect(result.positions.map((pos) => pos.pnl.toString())).toEqual(["496", "42.314498"]);
+    expect(result.pnlChange.toString()).toBe("0");
+    // Jupiter collateral plus PnL, and the Drift account's net asset value
+    expect(result.marginUsd.toString()).toBe("3054.70477");
+    expect(result.liquidatedCount).toBe(0);
+  });
+
+  test("reprices Jupiter positions with the protocol's PnL math", () => {
+    const [sol] = runScenario([JUPITER_SOL_LONG], [], { SOL: -10 }).positions;
+
+    expect(sol?.markPrice.toString()).toBe("99");
+    // 5000 * (99 - 100) / 100 less fees
+    expect(sol?.pnl.toString()).toBe("-54");
+    expect(sol?.pnlChange.toString()).toBe("-550");
+    expect(sol?.marginUsd?.toString()).toBe("946");
+    expect(sol?.liquidated).toBe(false);
+  });
+
+  test("liquidates isolated positions past their liquidation price", () => {
+    const [sol] = runScenario([JUPITER_SOL_LONG], [], { SOL: -30 }).positions;
+
+    expect(sol?.markPrice.toString()).toBe("77");
+    expect(sol?.liquidated).toBe(true);
+  });
+
+  test("reprices Drift positions with the SDK's PnL math and keeps unsettled funding", () => {
+    const [sol] = runScenario([driftLong], [], { SOL: -5 }).positions;
+
+    expect(sol?.markPrice.toString()).toBe("169.49883945");
+    // 25 * 169.498839 less the 4415.998204 quote amount and the 2.183073 of unsettled funding
+    expect(sol?.pnl.toString()).toBe("-180.710302");
+    expect(sol?.pnlChange.toString()).toBe("-223.0248");
+    expect(sol?.marginUsd?.toString()).toBe("1335.67997");
+  });
+
+  test("rejects Drift positions that were not fetched by the adapter", () => {
+    const position = createPosition("drift", "SOL", "LONG", { baseAmount: d("1"), markPrice: d("100") });
+    expect(() => runScenario([position], [], { SOL: -5 })).toThrow(AccountNotFoundError);
+  });
+
+  test("re-margins cross-margin accounts with their spot balances", () => {
+    const crash = runScenario([driftShort], shortAccountBalances, { SOL: -50 });
+    // 1115.123937 gained on the short and 42.17990328 * 89.2099155 lost on the SOL deposit; the USDC borrow is unchanged
+    expect(crash.positions[0]?.pnlChange.toString()).toBe("1115.123937");
+    expect(crash.marginUsd.toString()).toBe("2743.78241759302716");
+    expect(crash.liquidatedCount).toBe(0);
+
+    // The long's account is liquidated between its liquidation price distance (32.93%) and 40%
+    expect(runScenario([driftLong], longAccountBalances, { SOL: -30 }).liquidatedCount).toBe(0);
+    expect(runScenario([driftLong], longAccountBalances, { SOL: -40 }).liquidatedCount).toBe(1);
+  });
+
+  test("falls back to linear PnL for protocols without their own math", () => {
+    const [pos] = runScenario(
+      [createPosition("other", "ETH", "SHORT", { baseAmount: d("2"), markPrice: d("3000"), pnl: d("100") })],
+      [],
+      { ETH: 10 },
+    ).positions;
+
+    expect(pos?.pnl.toString()).toBe("-500");
+  });
+});
+
+describe("expandShockGrid", () => {
+  test("builds the cartesian product keyed by underlying asset", () => {
+    const shocks = expandShockGrid({ sol: [-10, 0], wBTC: [-5, 0, 5] });
+
+    expect(shocks).toHaveLength(6);
+    expect(shocks[0]).toEqual({ SOL: -10, BTC: -5 });
+    expect(shocks[5]).toEqual({ SOL: 0, BTC: 5 });
+    expect(shocks.map(formatScenarioName).slice(3)).toEqual(["BTC -5%", "base", "BTC +5%"]);
+  });
+
+  test("rejects grids above the scenario limit", () => {
+    const values = Array.from({ length: 101 }, (_, index) => index - 50);
+    expect(() => expandShockGrid({ SOL: values, BTC: values })).toThrow("Shock grid has 10201 scenarios");
+  });
+});
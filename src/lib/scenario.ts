@@ -0,0 +1,241 @@
+import { resolveUnderlyingAsset } from "../constants";
+import type {
+  AccountMargin,
+  Position,
+  PositionScenarioResult,
+  PriceShocks,
+  ScenarioReport,
+  ScenarioResult,
+  SpotBalance,
+} from "../types";
+import { calculateLiquidationDistancePercent, Decimal, getSignedSpotAmounts } from "../utils";
+import { getAdapter } from "./registry";
+
+/**
+ * Price shock scenarios
+ * A scenario moves the price of some underlying assets by a percentage and revalues every position with its protocol's
+ * PnL math (PerpProtocolAdapter.calculatePnlAtPrice). Isolated positions are liquidated once the shocked price crosses
+ * their liquidation price. Cross-margin accounts are re-margined as a whole: the PnL and spot value changes move their
+ * collateral, and the maintenance requirement is scaled with the shocked exposure, which estimates the protocol's
+ * per-market margin ratios by the account's current blended ratio.
+ */
+
+/** Upper bound on the scenarios of one grid, to keep a typo from producing millions of rows */
+const MAX_SCENARIOS = 10_000;
+
+const HUNDRED = Decimal.fromNumber(100);
+
+/** Position revalued at its shocked price */
+interface RepricedPosition {
+  position: Position;
+  assetId: string;
+  shockPercent: number;
+  markPrice: Decimal;
+  pnl: Decimal;
+}
+
+/** Value and exposure changes of one cross-margin account */
+interface AccountChange {
+  margin: AccountMargin;
+  /** Change of the account's net asset value in USD */
+  valueChange: Decimal;
+  /** Perp notional plus borrowed value in USD, before and after the shocks */
+  exposure: Decimal;
+  shockedExposure: Decimal;
+}
+
+/** Cross-margin account at the shocked prices */
+interface AccountScenario {
+  netAssetValue: Decimal;
+  liquidated: boolean;
+}
+
+/**
+ * Run several scenarios over the same positions and spot balances
+ * @param positions Open positions of any protocol
+ * @param spotBalances Spot deposits and borrows of cross-margin accounts
+ * @param shockSets One set of price shocks per scenario
+ */
+export function runScenarios(
+  positions: Position[],
+  spotBalances: SpotBalance[],
+  shockSets: PriceShocks[],
+): ScenarioReport {
+  return {
+    assetIds: [...new Set(shockSets.flatMap((shocks) => Object.keys(shocks)))],
+    scenarios: shockSets.map((shocks) => runScenario(positions, spotBalances, shocks)),
+  };
+}
+
+/**
+ * Revalue positions, spot balances and margin under one set of price shocks
+ * @param shocks Price moves in % keyed by underlying asset id (see resolveUnderlyingAsset)
+ */
+export function runScenario(positions: Position[], spotBalances: SpotBalance[], shocks: PriceShocks): ScenarioResult {
+  const repriced = positions.map((position) => repricePosition(position, shocks));
+  const accounts = remarginAccounts(repriced, spotBalances, shocks);
+
+  const results = repriced.map(({ position, ...scenario }): PositionScenarioResult => {
+    const account = accounts.get(position.accountAddress);
+    const marginUsd = account ? account.netAssetValue : position.collateral?.usdValue.add(scenario.pnl);
+
+    return {
+      owner: position.owner,
+      protocol: position.protocol,
+      accountAddress: position.accountAddress,
+      symbol: position.symbol,
+      assetId: scenario.assetId,
+      direction: position.direction,
+      protocolMarketId: position.protocolMarketId,
+      subAccountId: position.subAccountId,
+      shockPercent: scenario.shockPercent,
+      markPrice: scenario.markPrice,
+      pnl: scenario.pnl,
+      pnlChange: scenario.pnl.sub(position.pnl),
+      marginUsd,
+      liquidated: account ? account.liquidated : isIsolatedLiquidated(position, scenario.markPrice, marginUsd),
+    };
+  });
+
+  const isolatedMargins = results.flatMap((result) =>
+    !accounts.has(result.accountAddress) && result.marginUsd ? [result.marginUsd] : [],
+  );
+  const accountMargins = [...accounts.values()].map((account) => account.netAssetValue);
+
+  return {
+    name: formatScenarioName(shocks),
+    shocks,
+    positions: results,
+    pnl: Decimal.sum(results.map((result) => result.pnl)),
+    pnlChange: Decimal.sum(results.map((result) => result.pnlChange)),
+    marginUsd: Decimal.sum([...accountMargins, ...isolatedMargins]),
+    liquidatedCount: results.filter((result) => result.liquidated).length,
+  };
+}
+
+/**
+ * Expand per-asset shock values into the scenarios of their cartesian product
+ * Asset keys are mapped to underlying asset ids, so "sol" and "SOL-2" both shock SOL
+ * @param grid Shock values in % per asset (a single value shocks the asset the same way in every scenario)
+ * @returns One set of shocks per scenario, the last asset varying fastest
+ * @throws Error when the grid has more than MAX_SCENARIOS scenarios
+ */
+export function expandShockGrid(grid: Record<string, number[]>): PriceShocks[] {
+  const axes = Object.entries(grid).map(([asset, values]) => [resolveUnderlyingAsset(asset).assetId, values] as const);
+  const count = axes.reduce((total, [, values]) => total * values.length, 1);
+  if (count > MAX_SCENARIOS) {
+    throw new Error(`Shock grid has ${count} scenarios (max ${MAX_SCENARIOS})`);
+  }
+
+  return axes.reduce<PriceShocks[]>(
+    (scenarios, [assetId, values]) =>
+      scenarios.flatMap((shocks) => values.map((value) => ({ ...shocks, [assetId]: value }))),
+    [{}],
+  );
+}
+
+/**
+ * Scenario label, e.g. "SOL -20% BTC +5%"; "base" when no price moves
+ */
+export function formatScenarioName(shocks: PriceShocks): string {
+  const moves = Object.entries(shocks)
+    .filter(([, percent]) => percent !== 0)
+    .map(([assetId, percent]) => `${assetId} ${percent > 0 ? "+" : ""}${percent}%`);
+  return moves.length > 0 ? moves.join(" ") : "base";
+}
+
+function repricePosition(position: Position, shocks: PriceShocks): RepricedPosition {
+  const { assetId } = resolveUnderlyingAsset(position.symbol);
+  const shockPercent = shocks[assetId] ?? 0;
+  const markPrice = applyShock(position.markPrice, shockPercent);
+  const calculatePnlAtPrice = getAdapter(position.protocol)?.calculatePnlAtPrice ?? calculateLinearPnlAtPrice;
+
+  return { position, assetId, shockPercent, markPrice, pnl: calculatePnlAtPrice(position, markPrice) };
+}
+
+/**
+ * Re-margin every cross-margin account holding a repriced position or a spot balance
+ * @returns Accounts keyed by account address
+ */
+function remarginAccounts(
+  repriced: RepricedPosition[],
+  spotBalances: SpotBalance[],
+  shocks: PriceShocks,
+): Map<string, AccountScenario> {
+  const changes = new Map<string, AccountChange>();
+  const addChange = (
+    { accountAddress, accountMargin }: Pick<Position, "accountAddress" | "accountMargin">,
+    valueChange: Decimal,
+    exposure: Decimal,
+    shockedExposure: Decimal,
+  ) => {
+    if (!accountMargin) return;
+    const change = changes.get(accountAddress) ?? {
+      margin: accountMargin,
+      valueChange: Decimal.ZERO,
+      exposure: Decimal.ZERO,
+      shockedExposure: Decimal.ZERO,
+    };
+    change.valueChange = change.valueChange.add(valueChange);
+    change.exposure = change.exposure.add(exposure);
+    change.shockedExposure = change.shockedExposure.add(shockedExposure);
+    changes.set(accountAddress, change);
+  };
+
+  for (const { position, markPrice, pnl } of repriced) {
+    const exposure = position.baseAmount.mul(position.markPrice);
+    addChange(position, pnl.sub(position.pnl), exposure, position.baseAmount.mul(markPrice));
+  }
+  for (const balance of spotBalances) {
+    const price = applyShock(balance.price, shocks[resolveUnderlyingAsset(balance.symbol).assetId] ?? 0);
+    const shockedValue = balance.tokenAmount.mul(price);
+    const { usdValue } = getSignedSpotAmounts(balance);
+    const shockedUsdValue = balance.side === "DEPOSIT" ? shockedValue : shockedValue.neg();
+    // Borrows are liabilities and carry margin requirements; deposits only count as collateral
+    const isBorrow = balance.side === "BORROW";
+    addChange(
+      balance,
+      shockedUsdValue.sub(usdValue),
+      isBorrow ? balance.usdValue : Decimal.ZERO,
+      isBorrow ? shockedValue : Decimal.ZERO,
+    );
+  }
+
+  return new Map(
+    [...changes.entries()].map(([accountAddress, { margin, valueChange, exposure, shockedExposure }]) => {
+      const maintenanceMarginRequirement = exposure.isPositive()
+        ? margin.maintenanceMarginRequirement.mul(shockedExposure).div(exposure)
+        : margin.maintenanceMarginRequirement;
+      return [
+        accountAddress,
+        {
+          netAssetValue: margin.netAssetValue.add(valueChange),
+          liquidated: margin.totalCollateral.add(valueChange).lt(maintenanceMarginRequirement),
+        },
+      ];
+    }),
+  );
+}
+
+/**
+ * Isolated positions are liquidated past their liquidation price, or without one once their margin is used up
+ */
+function isIsolatedLiquidated(position: Position, markPrice: Decimal, marginUsd?: Decimal): boolean {
+  if (position.liquidationPrice !== undefined) {
+    return calculateLiquidationDistancePercent(markPrice, position.liquidationPrice, position.direction) <= 0;
+  }
+  return marginUsd !== undefined && !marginUsd.isPositive();
+}
+
+/**
+ * Fallback for adapters without their own PnL math: PnL moves by the base amount times the price change
+ */
+function calculateLinearPnlAtPrice(position: Position, markPrice: Decimal): Decimal {
+  const priceChange = markPrice.sub(position.markPrice);
+  const pnlChange = position.baseAmount.mul(position.direction === "LONG" ? priceChange : priceChange.neg());
+  return position.pnl.add(pnlChange);
+}
+
+function applyShock(price: Decimal, shockPercent: number): Decimal {
+  return shockPercent === 0 ? price : price.mul(HUNDRED.add(Decimal.fromNumber(shockPercent))).div(HUNDRED);
+}
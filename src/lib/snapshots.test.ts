@@ -0,0 +1,106 @@
+import { Database } from "bun:sqlite";
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createPosition, TEST_OWNER } from "../testing/fixtures";
+import type { Position } from "../types";
+import { Decimal } from "../utils";
+import { SnapshotStore } from "./snapshots";
+
+const d = Decimal.parse;
+
+const CUSTODY_SOL = "7xS2gz2bTp3fwCC7knJvUWTEU9Tycczu6VhJYKgi1wdz";
+
+// Jupiter long and short in the SOL custody, each in its own position account
+const solPosition = (direction: Position["direction"], pnl: string) =>
+  createPosition("jupiter", "SOL", direction, {
+    accountAddress: `${direction.toLowerCase()}-account`,
+    protocolMarketId: CUSTODY_SOL,
+    sizeUsd: d("1000"),
+    pnl: d(pnl),
+  });
+
+let store: SnapshotStore;
+
+afterEach(() => {
+  store.close();
+});
+
+describe("SnapshotStore", () => {
+  test("keeps same-market positions in separate series", () => {
+    store = new SnapshotStore(":memory:");
+    store.saveSnapshot([TEST_OWNER], [solPosition("SHORT", "5"), solPosition("LONG", "-5")], 0, new Date(1_000));
+    store.saveSnapshot([TEST_OWNER], [solPosition("LONG", "-8"), solPosition("SHORT", "8")], 0, new Date(2_000));
+
+    const history = store.getPositionPnlHistory({ owners: [TEST_OWNER] });
+    expect(history.map((point) => [point.accountAddress, point.direction, point.pnl.toString()])).toEqual([
+      ["long-account", "LONG", "-5"],
+      ["long-account", "LONG", "-8"],
+      ["short-account", "SHORT", "5"],
+      ["short-account", "SHORT", "8"],
+    ]);
+    expect(history[0]?.protocolMarketId).toBe(CUSTODY_SOL);
+  });
+
+  test("sums portfolio PnL per snapshot exactly, counting empty snapshots as zero", () => {
+    store = new SnapshotStore(":memory:");
+    // Float addition would give 0.30000000000000004
+    store.saveSnapshot([TEST_OWNER], [solPosition("SHORT", "0.1"), solPosition("LONG", "0.2")], 1, new Date(1_000));
+    store.saveSnapshot([TEST_OWNER], [], 0, new Date(2_000));
+
+    const history = store.getPortfolioPnlHistory({ owners: [TEST_OWNER] });
+    expect(
+      history.map(({ positionCount, notionalUsd, pnl, failureCount }) => [
+        positionCount,
+        notionalUsd.toString(),
+        pnl.toString(),
+        failureCount,
+      ]),
+    ).toEqual([
+      [2, "2000", "0.3", 1],
+      [0, "0", "0", 0],
+    ]);
+  });
+
+  test("keeps the exact digits of large amounts", () => {
+    store = new SnapshotStore(":memory:");
+    const whale = solPosition("LONG", "12345678901234.567891");
+    store.saveSnapshot([TEST_OWNER], [{ ...whale, sizeUsd: d("90071992547409.930001") }]);
+
+    const [point] = store.getPositionPnlHistory();
+    expect([point?.sizeUsd.toString(), point?.pnl.toString()]).toEqual([
+      "90071992547409.930001",
+      "12345678901234.567891",
+    ]);
+  });
+
+  test("migrates amounts saved as REAL by schema v2", () => {
+    const dir = mkdtempSync(join(tmpdir(), "snapshots-"));
+    const path = join(dir, "positions.db");
+    const legacy = new Database(path);
+    legacy.exec(`CREATE TABLE snapshots (id INTEGER PRIMARY KEY AUTOINCREMENT, taken_at TEXT NOT NULL,
+      failure_count INTEGER NOT NULL DEFAULT 0);
+    CREATE TABLE snapshot_owners (snapshot_id INTEGER NOT NULL, owner TEXT NOT NULL, PRIMARY KEY (snapshot_id, owner));
+    CREATE TABLE snapshot_positions (snapshot_id INTEGER NOT NULL, owner TEXT NOT NULL, protocol TEXT NOT NULL,
+      symbol TEXT NOT NULL, market_id TEXT, sub_account_id INTEGER, direction TEXT NOT NULL, size_usd REAL NOT NULL,
+      base_amount REAL NOT NULL, entry_price REAL NOT NULL, mark_price REAL NOT NULL, pnl REAL NOT NULL,
+      leverage REAL NOT NULL, account_address TEXT);
+    INSERT INTO snapshots (taken_at) VALUES ('2026-01-01T00:00:00.000Z');
+    INSERT INTO snapshot_owners VALUES (1, '${TEST_OWNER}');
+    INSERT INTO snapshot_positions VALUES (1, '${TEST_OWNER}', 'drift', 'SOL', '0', 0, 'LONG', 1500, 10, 140, 150.25,
+      0.00001, 2.5, 'drift-account');
+    PRAGMA user_version = 2;`);
+    legacy.close();
+
+    try {
+      store = new SnapshotStore(path);
+      const [point] = store.getPositionPnlHistory();
+      expect([point?.sizeUsd, point?.markPrice, point?.pnl].map(String)).toEqual(["1500", "150.25", "0.00001"]);
+      expect(point).toMatchObject({ accountAddress: "drift-account", leverage: 2.5 });
+      expect(store.getPortfolioPnlHistory()[0]?.notionalUsd.toString()).toBe("1500");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,311 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { PortfolioPnlPoint, Position, PositionPnlPoint, SnapshotQuery } from "../types";
+import { Decimal, logger } from "../utils";
+
+/**
+ * Position snapshot store backed by SQLite
+ * Every fetch cycle is saved as one timestamped snapshot; history queries turn snapshots into PnL time series
+ */
+
+/**
+ * Schema migrations, applied in order
+ * PRAGMA user_version holds the number of applied migrations. Append new migrations; never edit applied ones.
+ */
+const MIGRATIONS: string[] = [
+  `CREATE TABLE snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    taken_at TEXT NOT NULL,
+    failure_count INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX idx_snapshots_taken_at ON snapshots (taken_at);
+
+  CREATE TABLE snapshot_owners (
+    snapshot_id INTEGER NOT NULL REFERENCES snapshots (id) ON DELETE CASCADE,
+    owner TEXT NOT NULL,
+    PRIMARY KEY (snapshot_id, owner)
+  );
+
+  CREATE TABLE snapshot_positions (
+    snapshot_id INTEGER NOT NULL REFERENCES snapshots (id) ON DELETE CASCADE,
+    owner TEXT NOT NULL,
+    protocol TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    market_id TEXT,
+    sub_account_id INTEGER,
+    direction TEXT NOT NULL,
+    size_usd REAL NOT NULL,
+    base_amount REAL NOT NULL,
+    entry_price REAL NOT NULL,
+    mark_price REAL NOT NULL,
+    pnl REAL NOT NULL,
+    leverage REAL NOT NULL
+  );
+  CREATE INDEX idx_snapshot_positions_snapshot ON snapshot_positions (snapshot_id);
+  CREATE INDEX idx_snapshot_positions_owner ON snapshot_positions (owner, protocol, symbol);`,
+  // Positions of one market are told apart by account (e.g. Jupiter longs and shorts of the same custody)
+  `ALTER TABLE snapshot_positions ADD COLUMN account_address TEXT;`,
+  // Amounts as decimal strings, so history keeps the exact values and is totaled in Decimal
+  `CREATE TABLE snapshot_positions_v3 (
+    snapshot_id INTEGER NOT NULL REFERENCES snapshots (id) ON DELETE CASCADE,
+    owner TEXT NOT NULL,
+    protocol TEXT NOT NULL,
+    account_address TEXT,
+    symbol TEXT NOT NULL,
+    market_id TEXT,
+    sub_account_id INTEGER,
+    direction TEXT NOT NULL,
+    size_usd TEXT NOT NULL,
+    base_amount TEXT NOT NULL,
+    entry_price TEXT NOT NULL,
+    mark_price TEXT NOT NULL,
+    pnl TEXT NOT NULL,
+    leverage TEXT NOT NULL
+  );
+  INSERT INTO snapshot_positions_v3 (
+    snapshot_id, owner, protocol, account_address, symbol, market_id, sub_account_id, direction,
+    size_usd, base_amount, entry_price, mark_price, pnl, leverage
+  )
+  SELECT snapshot_id, owner, protocol, account_address, symbol, market_id, sub_account_id, direction,
+    CAST(size_usd AS TEXT), CAST(base_amount AS TEXT), CAST(entry_price AS TEXT), CAST(mark_price AS TEXT),
+    CAST(pnl AS TEXT), CAST(leverage AS TEXT)
+  FROM snapshot_positions;
+  DROP TABLE snapshot_positions;
+  ALTER TABLE snapshot_positions_v3 RENAME TO snapshot_positions;
+  CREATE INDEX idx_snapshot_positions_snapshot ON snapshot_positions (snapshot_id);
+  CREATE INDEX idx_snapshot_positions_owner ON snapshot_positions (owner, protocol, symbol);`,
+];
+
+/** Row shape of the position history query */
+interface PositionPnlRow {
+  snapshot_id: number;
+  taken_at: string;
+  owner: string;
+  protocol: string;
+  account_address: string | null;
+  symbol: string;
+  market_id: string | null;
+  sub_account_id: number | null;
+  direction: Position["direction"];
+  size_usd: string;
+  entry_price: string;
+  mark_price: string;
+  pnl: string;
+  leverage: string;
+}
+
+/** Row shape of the portfolio history snapshot query */
+interface SnapshotRow {
+  snapshot_id: number;
+  taken_at: string;
+  failure_count: number;
+}
+
+/** Row shape of the portfolio history position query */
+interface PositionAmountRow {
+  snapshot_id: number;
+  size_usd: string;
+  pnl: string;
+}
+
+/**
+ * SQLite snapshot store
+ * Opening the store creates the database file and applies pending migrations
+ */
+export class SnapshotStore {
+  private readonly db: Database;
+
+  /**
+   * @param path Database file (":memory:" for a throwaway store)
+   * @throws Error if the database was written by a newer schema version
+   */
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec("PRAGMA foreign_keys = ON");
+    this.migrate();
+  }
+
+  /**
+   * Save one fetch cycle
+   * @param owners Wallets covered by the fetch, including wallets without positions
+   * @param positions Positions of those wallets
+   * @param failureCount Protocol fetches that failed, so partial snapshots can be told apart
+   * @returns Snapshot id
+   */
+  saveSnapshot(owners: string[], positions: Position[], failureCount = 0, takenAt: Date = new Date()): number {
+    const insertSnapshot = this.db.query<{ id: number }, [string, number]>(
+      "INSERT INTO snapshots (taken_at, failure_count) VALUES (?, ?) RETURNING id",
+    );
+    const insertOwner = this.db.query("INSERT OR IGNORE INTO snapshot_owners (snapshot_id, owner) VALUES (?, ?)");
+    const insertPosition = this.db.query(
+      `INSERT INTO snapshot_positions (
+        snapshot_id, owner, protocol, account_address, symbol, market_id, sub_account_id, direction,
+        size_usd, base_amount, entry_price, mark_price, pnl, leverage
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+
+    const snapshotId = this.db.transaction(() => {
+      const row = insertSnapshot.get(takenAt.toISOString(), failureCount);
+      if (!row) {
+        throw new Error("Failed to insert snapshot");
+      }
+
+      for (const owner of owners) {
+        insertOwner.run(row.id, owner);
+      }
+      for (const position of positions) {
+        insertPosition.run(
+          row.id,
+          position.owner,
+          position.protocol,
+          position.accountAddress,
+          position.symbol,
+          position.protocolMarketId,
+          position.subAccountId ?? null,
+          position.direction,
+          position.sizeUsd.toString(),
+          position.baseAmount.toString(),
+          position.entryPrice.toString(),
+          position.markPrice.toString(),
+          position.pnl.toString(),
+          String(position.leverage),
+        );
+      }
+      return row.id;
+    })();
+
+    logger.debug(`💾 Saved snapshot ${snapshotId} with ${positions.length} positions`);
+    return snapshotId;
+  }
+
+  /**
+   * PnL time series per position, ordered by position and time
+   * Snapshots saved before account addresses were recorded have no accountAddress and form one series per market
+   */
+  getPositionPnlHistory(query: SnapshotQuery = {}): PositionPnlPoint[] {
+    const rows = this.db
+      .query<PositionPnlRow, Record<string, string | null>>(
+        `SELECT s.id AS snapshot_id, s.taken_at, p.owner, p.protocol, p.account_address, p.symbol, p.market_id,
+          p.sub_account_id,
+          p.direction, p.size_usd, p.entry_price, p.mark_price, p.pnl, p.leverage
+        FROM snapshot_positions p
+        JOIN snapshots s ON s.id = p.snapshot_id
+        WHERE ($owners IS NULL OR p.owner IN (SELECT value FROM json_each($owners)))
+          AND ($protocols IS NULL OR p.protocol IN (SELECT value FROM json_each($protocols)))
+          AND ($symbol IS NULL OR upper(p.symbol) = upper($symbol))
+          AND ($since IS NULL OR s.taken_at >= $since)
+          AND ($until IS NULL OR s.taken_at <= $until)
+        ORDER BY p.owner, p.protocol, p.account_address, p.market_id, p.sub_account_id, s.taken_at`,
+      )
+      .all(toQueryParams(query));
+
+    return rows.map((row) => ({
+      snapshotId: row.snapshot_id,
+      takenAt: row.taken_at,
+      owner: row.owner,
+      protocol: row.protocol,
+      accountAddress: row.account_address ?? undefined,
+      symbol: row.symbol,
+      protocolMarketId: row.market_id ?? undefined,
+      subAccountId: row.sub_account_id ?? undefined,
+      direction: row.direction,
+      sizeUsd: parseAmount(row.size_usd),
+      entryPrice: parseAmount(row.entry_price),
+      markPrice: parseAmount(row.mark_price),
+      pnl: parseAmount(row.pnl),
+      leverage: Number(row.leverage),
+    }));
+  }
+
+  /**
+   * Portfolio PnL time series, one point per snapshot covering at least one of the requested owners
+   * Snapshots without matching positions count as zero, so closing every position shows up as a drop to 0
+   */
+  getPortfolioPnlHistory(query: SnapshotQuery = {}): PortfolioPnlPoint[] {
+    const params = toQueryParams(query);
+    const snapshots = this.db
+      .query<SnapshotRow, Record<string, string | null>>(
+        `SELECT s.id AS snapshot_id, s.taken_at, s.failure_count
+        FROM snapshots s
+        WHERE ($owners IS NULL OR EXISTS (
+            SELECT 1 FROM snapshot_owners o
+            WHERE o.snapshot_id = s.id AND o.owner IN (SELECT value FROM json_each($owners))
+          ))
+          AND ($since IS NULL OR s.taken_at >= $since)
+          AND ($until IS NULL OR s.taken_at <= $until)
+        ORDER BY s.taken_at`,
+      )
+      .all(params);
+    const positions = this.db
+      .query<PositionAmountRow, Record<string, string | null>>(
+        `SELECT p.snapshot_id, p.size_usd, p.pnl
+        FROM snapshot_positions p
+        JOIN snapshots s ON s.id = p.snapshot_id
+        WHERE ($owners IS NULL OR p.owner IN (SELECT value FROM json_each($owners)))
+          AND ($protocols IS NULL OR p.protocol IN (SELECT value FROM json_each($protocols)))
+          AND ($symbol IS NULL OR upper(p.symbol) = upper($symbol))
+          AND ($since IS NULL OR s.taken_at >= $since)
+          AND ($until IS NULL OR s.taken_at <= $until)`,
+      )
+      .all(params);
+
+    const positionsBySnapshot = Map.groupBy(positions, (row) => row.snapshot_id);
+    return snapshots.map((snapshot) => {
+      const rows = positionsBySnapshot.get(snapshot.snapshot_id) ?? [];
+      return {
+        snapshotId: snapshot.snapshot_id,
+        takenAt: snapshot.taken_at,
+        positionCount: rows.length,
+        notionalUsd: Decimal.sum(rows.map((row) => parseAmount(row.size_usd))),
+        pnl: Decimal.sum(rows.map((row) => parseAmount(row.pnl))),
+        failureCount: snapshot.failure_count,
+      };
+    });
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private migrate(): void {
+    const row = this.db.query<{ user_version: number }, []>("PRAGMA user_version").get();
+    const version = row?.user_version ?? 0;
+
+    if (version > MIGRATIONS.length) {
+      throw new Error(`Snapshot database schema v${version} is newer than supported v${MIGRATIONS.length}`);
+    }
+
+    for (const [index, migration] of MIGRATIONS.entries()) {
+      if (index < version) continue;
+
+      this.db.transaction(() => {
+        this.db.exec(migration);
+        this.db.exec(`PRAGMA user_version = ${index + 1}`);
+      })();
+      logger.info(`🗄️ Applied snapshot schema migration v${index + 1}`);
+    }
+  }
+}
+
+/**
+ * Stored amount as a Decimal
+ * Rows migrated from the REAL columns of schema v2 may hold float text in exponent form (e.g. "1.0e-05")
+ */
+function parseAmount(text: string): Decimal {
+  return /e/i.test(text) ? Decimal.fromNumber(Number(text)) : Decimal.parse(text);
+}
+
+function toQueryParams(query: SnapshotQuery): Record<string, string | null> {
+  return {
+    $owners: query.owners && query.owners.length > 0 ? JSON.stringify(query.owners) : null,
+    $protocols: query.protocols && query.protocols.length > 0 ? JSON.stringify(query.protocols) : null,
+    $symbol: query.symbol ?? null,
+    $since: query.since?.toISOString() ?? null,
+    $until: query.until?.toISOString() ?? null,
+  };
+}
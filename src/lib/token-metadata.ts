@@ -0,0 +1,60 @@
+import { PublicKey } from "@solana/web3.js";
+
+// ========================================================================================
+// Constants
+// ========================================================================================
+
+/** Metaplex Token Metadata program */
+export const TOKEN_METADATA_PROGRAM_ID = new PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s");
+
+/** Metaplex `Metadata` account layout offsets */
+const LAYOUT = {
+  /** Account key tag of `MetadataV1` */
+  METADATA_V1_KEY: 4,
+  /** Key tag, update authority and mint precede the name */
+  NAME_OFFSET: 1 + 32 + 32,
+  /** Borsh string length prefix size */
+  STRING_LENGTH_SIZE: 4,
+} as const;
+
+// ========================================================================================
+// Decoding
+// ========================================================================================
+
+/**
+ * Address of the Metaplex metadata account of a mint
+ */
+export function getTokenMetadataAddress(mint: PublicKey): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from("metadata"), TOKEN_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    TOKEN_METADATA_PROGRAM_ID,
+  );
+  return address;
+}
+
+/**
+ * Decode the token symbol of a Metaplex `Metadata` account
+ * Names and symbols are stored null-padded to a fixed length, so padding is stripped
+ * @param data Raw account data
+ * @returns Token symbol, or undefined when it is empty
+ * @throws Error if the account is not a `Metadata` account
+ */
+export function decodeTokenMetadataSymbol(data: Buffer): string | undefined {
+  if (data.readUInt8(0) !== LAYOUT.METADATA_V1_KEY) {
+    throw new Error("Not a Metaplex Metadata account");
+  }
+
+  const nameLength = data.readUInt32LE(LAYOUT.NAME_OFFSET);
+  const symbolOffset = LAYOUT.NAME_OFFSET + LAYOUT.STRING_LENGTH_SIZE + nameLength;
+  const symbolLength = data.readUInt32LE(symbolOffset);
+  const symbolStart = symbolOffset + LAYOUT.STRING_LENGTH_SIZE;
+  if (symbolStart + symbolLength > data.length) {
+    throw new Error("Metadata symbol exceeds the account data");
+  }
+
+  const symbol = data
+    .toString("utf8", symbolStart, symbolStart + symbolLength)
+    .replace(/\0/g, "")
+    .trim();
+  return symbol || undefined;
+}
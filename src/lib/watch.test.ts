@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import { createPosition, createSpotBalance, TEST_OWNER } from "../testing/fixtures";
+import type { PerpProtocolAdapter, Position, PositionListener, SpotBalance } from "../types";
+import { registerAdapter } from "./registry";
+import { PositionWatcher } from "./watch";
+
+const NO_CAPABILITIES = {
+  subAccounts: false,
+  crossMargin: false,
+  liquidationPrice: false,
+  feesInPnl: false,
+  funding: false,
+};
+
+/** Adapter without watchPositions, polled by the watcher */
+function createPollingAdapter(id: string, fetchPositions: PerpProtocolAdapter["fetchPositions"]): PerpProtocolAdapter {
+  return { id, displayName: id, capabilities: NO_CAPABILITIES, fetchPositions, listMarkets: async () => [] };
+}
+
+/** Adapter whose subscriptions resolve when the test releases them */
+function createWatchAdapter(id: string) {
+  const subscriptions: { onUpdate: PositionListener; closed: boolean; release: () => void }[] = [];
+  const adapter: PerpProtocolAdapter = {
+    ...createPollingAdapter(id, async () => ({ positions: [], warnings: [], errors: [] })),
+    watchPositions: (_owner, onUpdate) =>
+      new Promise((resolve) => {
+        const subscription = {
+          onUpdate,
+          closed: false,
+          release: () =>
+            resolve({
+              refresh: async () => {},
+              close: async () => {
+                subscription.closed = true;
+              },
+            }),
+        };
+        subscriptions.push(subscription);
+      }),
+  };
+  return { adapter, subscriptions };
+}
+
+describe("PositionWatcher", () => {
+  test("emits positions and spot balances of polled adapters once every target is subscribed", async () => {
+    const position = createPosition("watch-poll", "SOL", "LONG");
+    const spotBalance = createSpotBalance("SOL", "DEPOSIT", "1", "150", { protocol: "watch-poll" });
+    registerAdapter(
+      createPollingAdapter("watch-poll", async () => ({
+        positions: [position],
+        spotBalances: [spotBalance],
+        warnings: [],
+        errors: [],
+      })),
+    );
+
+    const updates: [Position[], SpotBalance[]][] = [];
+    const watcher = new PositionWatcher({
+      protocols: ["watch-poll"],
+      refreshIntervalMs: 60_000,
+      onUpdate: (positions, spotBalances) => updates.push([positions, spotBalances]),
+    });
+    await watcher.start([TEST_OWNER]);
+    await watcher.stop();
+
+    expect(updates).toEqual([[[position], [spotBalance]]]);
+  });
+
+  test("starts nothing when stopped while subscribing", async () => {
+    const { adapter, subscriptions } = createWatchAdapter("watch-slow");
+    registerAdapter(adapter);
+
+    const updates: Position[][] = [];
+    const watcher = new PositionWatcher({
+      protocols: ["watch-slow"],
+      refreshIntervalMs: 10,
+      onUpdate: (positions) => updates.push(positions),
+    });
+    const started = watcher.start([TEST_OWNER]);
+    await Bun.sleep(0);
+    expect(subscriptions).toHaveLength(1);
+
+    await watcher.stop();
+    subscriptions[0]?.release();
+    await started;
+
+    // The late subscription is closed and neither updates nor refreshes follow
+    expect(subscriptions[0]?.closed).toBe(true);
+    subscriptions[0]?.onUpdate([createPosition("watch-slow", "SOL", "LONG")]);
+    await Bun.sleep(30);
+    expect(updates).toEqual([]);
+    expect(subscriptions).toHaveLength(1);
+  });
+});
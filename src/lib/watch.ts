@@ -0,0 +1,237 @@
+import type { NetworkId } from "../constants";
+import type {
+  FetchPositionsOptions,
+  PerpProtocolAdapter,
+  Position,
+  PositionListener,
+  PositionSubscription,
+  ProtocolId,
+  SpotBalance,
+} from "../types";
+import { filterValidPositions, getErrorDetails, logger } from "../utils";
+import { getAdapters } from "./registry";
+
+/**
+ * Live position watch
+ * Every wallet × adapter pair holds one live subscription; adapters without watchPositions are polled instead.
+ * Prices are refreshed on an interval, and a subscription whose refresh fails is closed and re-created with backoff.
+ */
+
+/** Watch configuration defaults */
+const WATCH_DEFAULTS = {
+  REFRESH_INTERVAL_MS: 30_000,
+  RECONNECT_BASE_DELAY_MS: 1_000,
+  RECONNECT_MAX_DELAY_MS: 60_000,
+} as const;
+
+export interface PositionWatcherOptions {
+  /** Protocols to watch (default: all registered) */
+  protocols?: ProtocolId[];
+  /** RPC URL overriding the default endpoint */
+  rpcUrl?: string;
+  /** Network profile (default: DEFAULT_NETWORK) */
+  network?: NetworkId;
+  /** Sub-accounts to watch on protocols with sub-accounts (default: every existing one) */
+  subAccountIds?: number[];
+  /** Price refresh interval */
+  refreshIntervalMs?: number;
+  /** Receives every wallet's positions and spot balances whenever the combined set changes */
+  onUpdate: (positions: Position[], spotBalances: SpotBalance[]) => void;
+}
+
+/** Subscription state of one wallet on one protocol */
+interface WatchTarget {
+  owner: string;
+  adapter: PerpProtocolAdapter;
+  positions: Position[];
+  spotBalances: SpotBalance[];
+  subscription?: PositionSubscription;
+  reconnectAttempts: number;
+  reconnectTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Watch positions of several wallets across protocols
+ */
+export class PositionWatcher {
+  private readonly targets: WatchTarget[] = [];
+  private refreshTimer?: ReturnType<typeof setInterval>;
+  private refreshing = false;
+  private stopped = true;
+  /** Set once every target has been subscribed, so startup does not emit partial sets */
+  private ready = false;
+  private lastEmitted?: string;
+
+  constructor(private readonly options: PositionWatcherOptions) {}
+
+  /**
+   * Subscribe to every wallet on every protocol and start the refresh interval
+   * A wallet that fails to subscribe keeps retrying in the background
+   * @throws Error if a requested protocol is not registered
+   */
+  async start(owners: string[]): Promise<void> {
+    if (!this.stopped) {
+      throw new Error("Position watcher already started");
+    }
+    this.stopped = false;
+    this.ready = false;
+
+    for (const owner of owners) {
+      for (const adapter of getAdapters(this.options.protocols)) {
+        this.targets.push({ owner, adapter, positions: [], spotBalances: [], reconnectAttempts: 0 });
+      }
+    }
+
+    // Subscribe one target at a time to stay within public RPC rate limits
+    for (const target of this.targets) {
+      await this.subscribe(target);
+      // stop() may have run while subscribing; it closed everything, so nothing may be started after it
+      if (this.stopped) return;
+    }
+    this.ready = true;
+    this.emit();
+
+    this.refreshTimer = setInterval(
+      () => this.refreshAll(),
+      this.options.refreshIntervalMs ?? WATCH_DEFAULTS.REFRESH_INTERVAL_MS,
+    );
+    logger.info(`👀 Watching ${this.targets.length} wallet/protocol subscription(s)`);
+  }
+
+  /**
+   * Stop refreshing and close every subscription
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearInterval(this.refreshTimer);
+
+    for (const target of this.targets) {
+      clearTimeout(target.reconnectTimer);
+      await this.closeSubscription(target);
+    }
+    this.targets.length = 0;
+    logger.info("👋 Position watch stopped");
+  }
+
+  /**
+   * Latest positions of every wallet
+   */
+  getPositions(): Position[] {
+    return this.targets.flatMap((target) => target.positions);
+  }
+
+  /**
+   * Latest spot balances of every wallet
+   */
+  getSpotBalances(): SpotBalance[] {
+    return this.targets.flatMap((target) => target.spotBalances);
+  }
+
+  private async subscribe(target: WatchTarget): Promise<void> {
+    const { owner, adapter } = target;
+    const onUpdate: PositionListener = (positions, spotBalances = []) => {
+      if (this.stopped) return;
+      target.positions = filterValidPositions(positions).positions;
+      target.spotBalances = spotBalances;
+      if (this.ready) this.emit();
+    };
+    const fetchOptions: FetchPositionsOptions = {
+      rpcUrl: this.options.rpcUrl,
+      network: this.options.network,
+      subAccountIds: this.options.subAccountIds,
+    };
+
+    try {
+      target.subscription = adapter.watchPositions
+        ? await adapter.watchPositions(owner, onUpdate, fetchOptions)
+        : await createPollingSubscription(adapter, owner, onUpdate, fetchOptions);
+      target.reconnectAttempts = 0;
+
+      // stop() may have run while the subscription was being created
+      if (this.stopped) {
+        await this.closeSubscription(target);
+      }
+    } catch (error) {
+      logger.error(`❌ ${adapter.displayName} watch failed for ${owner}: ${getErrorDetails(error).message}`);
+      this.scheduleReconnect(target);
+    }
+  }
+
+  private scheduleReconnect(target: WatchTarget): void {
+    if (this.stopped) return;
+
+    const delayMs = Math.min(
+      WATCH_DEFAULTS.RECONNECT_BASE_DELAY_MS * 2 ** target.reconnectAttempts,
+      WATCH_DEFAULTS.RECONNECT_MAX_DELAY_MS,
+    );
+    target.reconnectAttempts += 1;
+    logger.warn(`🔁 Resubscribing ${target.adapter.displayName} for ${target.owner} in ${delayMs}ms`);
+
+    target.reconnectTimer = setTimeout(async () => {
+      await this.closeSubscription(target);
+      await this.subscribe(target);
+    }, delayMs);
+  }
+
+  private async refreshAll(): Promise<void> {
+    // Skip a tick instead of piling up refreshes on a slow RPC
+    if (this.refreshing) return;
+    this.refreshing = true;
+
+    try {
+      for (const target of this.targets) {
+        if (!target.subscription || this.stopped) continue;
+
+        try {
+          await target.subscription.refresh();
+        } catch (error) {
+          logger.error(
+            `❌ ${target.adapter.displayName} refresh failed for ${target.owner}: ${getErrorDetails(error).message}`,
+          );
+          await this.closeSubscription(target);
+          this.scheduleReconnect(target);
+        }
+      }
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  private async closeSubscription(target: WatchTarget): Promise<void> {
+    const { subscription } = target;
+    target.subscription = undefined;
+
+    try {
+      await subscription?.close();
+    } catch (error) {
+      logger.warn(`⚠️ Failed to close ${target.adapter.displayName} subscription: ${getErrorDetails(error).message}`);
+    }
+  }
+
+  private emit(): void {
+    const positions = this.getPositions();
+    const spotBalances = this.getSpotBalances();
+    const serialized = JSON.stringify([positions, spotBalances]);
+    if (serialized === this.lastEmitted) return;
+
+    this.lastEmitted = serialized;
+    this.options.onUpdate(positions, spotBalances);
+  }
+}
+
+/**
+ * Subscription that re-fetches positions on every refresh
+ */
+async function createPollingSubscription(
+  adapter: PerpProtocolAdapter,
+  owner: string,
+  onUpdate: PositionListener,
+  options: FetchPositionsOptions,
+): Promise<PositionSubscription> {
+  const refresh = async () => {
+    const { positions, spotBalances } = await adapter.fetchPositions(owner, options);
+    onUpdate(positions, spotBalances);
+  };
+  await refresh();
+  return { refresh, close: async () => {} };
+}
@@ -0,0 +1,58 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { createPosition } from "../testing/fixtures";
+import type { Alert } from "../types";
+import { buildWebhookPayload, sendAlerts, type WebhookPayload } from "./webhook";
+
+const ALERT: Alert = {
+  ruleId: "loss",
+  type: "pnl_below",
+  key: "loss|jupiter-SOL-LONG",
+  message: "SOL LONG $1000.00 (jupiter): PnL $-150.00 below $-100.00",
+  position: createPosition("jupiter", "SOL", "LONG"),
+  triggeredAt: "2026-01-01T00:00:00.000Z",
+};
+
+// Local webhook receiver: /ok records the body, /fail answers 500
+const received: WebhookPayload[] = [];
+const server = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    const { pathname } = new URL(request.url);
+    if (pathname === "/fail") {
+      return new Response("unavailable", { status: 500 });
+    }
+    received.push((await request.json()) as WebhookPayload);
+    return new Response("ok");
+  },
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe("sendAlerts", () => {
+  test("posts the payload and keeps delivering past a failing webhook", async () => {
+    const delivered = await sendAlerts(
+      [{ url: `${server.url}fail` }, { url: `${server.url}ok` }, { url: "http://127.0.0.1:9/closed" }],
+      [ALERT],
+    );
+
+    expect(delivered).toBe(1);
+    expect(received).toHaveLength(1);
+    expect(received[0]?.text).toBe(`🚨 ${ALERT.message}`);
+    expect(received[0]?.content).toBe(received[0]?.text);
+    expect(received[0]?.alerts[0]?.key).toBe(ALERT.key);
+  });
+
+  test("sends nothing without alerts", async () => {
+    expect(await sendAlerts([{ url: `${server.url}ok` }], [])).toBe(0);
+  });
+});
+
+describe("buildWebhookPayload", () => {
+  test("truncates text to the Discord limit", () => {
+    const { text } = buildWebhookPayload(Array.from({ length: 100 }, () => ALERT));
+    expect(text).toHaveLength(2000);
+    expect(text.endsWith("…")).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import type { Alert, WebhookConfig } from "../types";
+import { getErrorDetails, logger } from "../utils";
+
+/**
+ * Webhook alert delivery
+ * The payload carries the text as both `text` (Slack) and `content` (Discord) plus the structured alerts,
+ * so one endpoint format works for Slack, Discord and generic receivers.
+ */
+
+/** Webhook delivery configuration */
+const WEBHOOK_CONFIG = {
+  TIMEOUT_MS: 10_000,
+  /** Discord rejects content longer than 2000 characters */
+  MAX_TEXT_LENGTH: 2000,
+} as const;
+
+/** JSON body posted to every webhook */
+export interface WebhookPayload {
+  text: string;
+  content: string;
+  alerts: Alert[];
+}
+
+/**
+ * Build the webhook body for a batch of alerts
+ */
+export function buildWebhookPayload(alerts: Alert[]): WebhookPayload {
+  const lines = alerts.map((alert) => `🚨 ${alert.message}`).join("\n");
+  const text =
+    lines.length > WEBHOOK_CONFIG.MAX_TEXT_LENGTH ? `${lines.slice(0, WEBHOOK_CONFIG.MAX_TEXT_LENGTH - 1)}…` : lines;
+  return { text, content: text, alerts };
+}
+
+/**
+ * Post alerts to every webhook
+ * A failing webhook is logged and does not stop delivery to the others
+ * @returns Number of webhooks that accepted the alerts
+ */
+export async function sendAlerts(webhooks: WebhookConfig[], alerts: Alert[]): Promise<number> {
+  if (alerts.length === 0 || webhooks.length === 0) {
+    return 0;
+  }
+
+  const body = JSON.stringify(buildWebhookPayload(alerts));
+  const results = await Promise.all(
+    webhooks.map(async (webhook) => {
+      try {
+        const response = await fetch(webhook.url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+          signal: AbortSignal.timeout(WEBHOOK_CONFIG.TIMEOUT_MS),
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        }
+        return true;
+      } catch (error) {
+        // Only the host is logged: webhook URLs embed their secret token
+        logger.error(`❌ Webhook delivery to ${new URL(webhook.url).host} failed: ${getErrorDetails(error).message}`);
+        return false;
+      }
+    }),
+  );
+
+  const delivered = results.filter(Boolean).length;
+  logger.info(`📣 Delivered ${alerts.length} alert(s) to ${delivered}/${webhooks.length} webhook(s)`);
+  return delivered;
+}
@@ -0,0 +1,41 @@
+/**
+ * In-memory TTL cache for API responses
+ * Concurrent requests for the same key share one pending load, so a burst of dashboard refreshes hits the RPC once
+ */
+export class ResponseCache<T> {
+  private readonly entries = new Map<string, { value: Promise<T>; expiresAt: number }>();
+
+  constructor(private readonly ttlMs: number) {}
+
+  /**
+   * Get a cached value or load it
+   * Failed loads are evicted immediately so the next request retries
+   * @returns The value and whether it came from the cache
+   */
+  async getOrLoad(key: string, load: () => Promise<T>): Promise<{ value: T; hit: boolean }> {
+    this.evictExpired();
+
+    const cached = this.entries.get(key);
+    if (cached) {
+      return { value: await cached.value, hit: true };
+    }
+
+    const value = load();
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    try {
+      return { value: await value, hit: false };
+    } catch (error) {
+      this.entries.delete(key);
+      throw error;
+    }
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
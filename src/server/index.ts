@@ -0,0 +1,77 @@
+import type { NetworkId } from "../constants";
+import { logger } from "../utils";
+import { ResponseCache } from "./cache";
+import {
+  handleExposure,
+  handleHealth,
+  handleNotFound,
+  handlePortfolio,
+  handlePositions,
+  handleStatus,
+  type PortfolioResponse,
+  type PositionsResponse,
+  type RouteContext,
+} from "./routes";
+
+export type { PortfolioResponse, PositionsResponse, ProtocolStatus } from "./routes";
+
+/** Server configuration defaults */
+const SERVER_DEFAULTS = {
+  PORT: 3000,
+  HOSTNAME: "127.0.0.1",
+  CACHE_TTL_MS: 30_000,
+} as const;
+
+export interface ApiServerOptions {
+  port?: number;
+  /** Interface to bind (default: loopback only) */
+  hostname?: string;
+  /** RPC URL overriding the default endpoint */
+  rpcUrl?: string;
+  /** Network profile (default: DEFAULT_NETWORK) */
+  network?: NetworkId;
+  /** Sub-accounts to read on protocols with sub-accounts (default: every existing one) */
+  subAccountIds?: number[];
+  /** How long position and portfolio responses are reused */
+  cacheTtlMs?: number;
+}
+
+/**
+ * Start the HTTP API server
+ *
+ * Routes:
+ * - GET /positions/:owner  Normalized positions of one wallet with per-protocol status
+ * - GET /portfolio?owners= Portfolio rollups across wallets
+ * - GET /exposure?owners=  Net exposure per underlying asset across wallets and protocols
+ * - GET /health            Liveness
+ * - GET /status            RPC reachability
+ */
+export function startApiServer(options: ApiServerOptions = {}): Bun.Server<undefined> {
+  const cacheTtlMs = options.cacheTtlMs ?? SERVER_DEFAULTS.CACHE_TTL_MS;
+  const context: RouteContext = {
+    rpcUrl: options.rpcUrl,
+    network: options.network,
+    subAccountIds: options.subAccountIds,
+    startedAt: Date.now(),
+    positionsCache: new ResponseCache<PositionsResponse>(cacheTtlMs),
+    portfolioCache: new ResponseCache<PortfolioResponse>(cacheTtlMs),
+  };
+
+  const server = Bun.serve({
+    port: options.port ?? SERVER_DEFAULTS.PORT,
+    hostname: options.hostname ?? SERVER_DEFAULTS.HOSTNAME,
+    routes: {
+      "/positions/:owner": {
+        GET: (request) => handlePositions(context, request.params.owner, new URL(request.url)),
+      },
+      "/portfolio": { GET: (request) => handlePortfolio(context, new URL(request.url)) },
+      "/exposure": { GET: (request) => handleExposure(context, new URL(request.url)) },
+      "/health": { GET: () => handleHealth(context) },
+      "/status": { GET: () => handleStatus(context) },
+    },
+    fetch: handleNotFound,
+  });
+
+  logger.info(`🌐 API server listening on ${server.url}`);
+  return server;
+}
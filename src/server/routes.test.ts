@@ -0,0 +1,74 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { TEST_OWNER } from "../testing/fixtures";
+import { startApiServer } from "./index";
+// Register the adapters listed by /status
+import "../lib/drift";
+import "../lib/jupiter";
+
+const SLOT = 312_456_789;
+
+// Local JSON-RPC endpoint answering getSlot
+const rpc = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    const { id, method } = (await request.json()) as { id: string; method: string };
+    return method === "getSlot"
+      ? Response.json({ jsonrpc: "2.0", id, result: SLOT })
+      : Response.json({ jsonrpc: "2.0", id, error: { code: -32601, message: "Method not found" } });
+  },
+});
+const server = startApiServer({ port: 0, rpcUrl: rpc.url.href });
+
+afterAll(async () => {
+  await server.stop(true);
+  await rpc.stop(true);
+});
+
+const get = (path: string) => fetch(new URL(path, server.url));
+
+describe("API routes", () => {
+  test("rejects wallet addresses that are not base58 public keys", async () => {
+    const positions = await get("/positions/0xNotASolanaAddress");
+    expect(positions.status).toBe(400);
+    expect(await positions.json()).toEqual({ error: "Invalid wallet address: 0xNotASolanaAddress" });
+
+    const portfolio = await get(`/portfolio?owners=${TEST_OWNER},not-base58!`);
+    expect(portfolio.status).toBe(400);
+    expect(await portfolio.json()).toEqual({ error: "Invalid wallet address: not-base58!" });
+  });
+
+  test("requires owners for portfolio queries", async () => {
+    const response = await get("/exposure");
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Missing query parameter: owners" });
+  });
+
+  test("reports RPC reachability, endpoints and protocols on /status", async () => {
+    const response = await get("/status");
+    expect(response.status).toBe(200);
+
+    expect(await response.json()).toMatchObject({
+      status: "ok",
+      network: expect.any(String),
+      rpc: {
+        host: rpc.url.host,
+        reachable: true,
+        latencyMs: expect.any(Number),
+        slot: SLOT,
+        endpoints: [expect.objectContaining({ host: rpc.url.host, healthy: true })],
+      },
+      protocols: expect.arrayContaining([
+        { id: "drift", displayName: "Drift Protocol" },
+        { id: "jupiter", displayName: expect.any(String) },
+      ]),
+    });
+  });
+
+  test("answers liveness and unknown routes", async () => {
+    expect(await (await get("/health")).json()).toMatchObject({ status: "ok", uptimeSeconds: expect.any(Number) });
+
+    const notFound = await get("/nope");
+    expect(notFound.status).toBe(404);
+    expect(await notFound.json()).toEqual({ error: "Not found: GET /nope" });
+  });
+});
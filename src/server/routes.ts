@@ -0,0 +1,292 @@
+import { createRpcConnection, getNetworkProfile, type NetworkId, resolveRpcUrls } from "../constants";
+import { buildExposureReport, buildPortfolio, fetchWalletResults, getAdapters, type WalletFetchResult } from "../lib";
+import type {
+  AdapterFetchResult,
+  FetchErrorCode,
+  FetchIssue,
+  Portfolio,
+  PortfolioTotals,
+  Position,
+  ProtocolId,
+  SpotBalance,
+} from "../types";
+import {
+  getErrorDetails,
+  getRpcPool,
+  isValidPublicKey,
+  logger,
+  type RpcEndpointHealth,
+  toPositionFetchError,
+} from "../utils";
+import type { ResponseCache } from "./cache";
+
+/**
+ * HTTP route handlers
+ * Every response is JSON; errors are `{ error }` with a 4xx / 5xx status
+ */
+
+/** Maximum wallets per portfolio request */
+const MAX_PORTFOLIO_OWNERS = 20;
+
+/** RPC reachability probe timeout */
+const RPC_PROBE_TIMEOUT_MS = 5_000;
+
+/**
+ * Outcome of one protocol adapter for one wallet
+ * partial: positions were returned but some were skipped (see errors)
+ */
+export interface ProtocolStatus {
+  owner: string;
+  protocol: ProtocolId;
+  status: "ok" | "partial" | "error";
+  durationMs: number;
+  positionCount?: number;
+  warnings?: FetchIssue[];
+  errors?: FetchIssue[];
+  error?: string;
+  errorCode?: FetchErrorCode;
+}
+
+export interface PositionsResponse {
+  owner: string;
+  positions: Position[];
+  spotBalances: SpotBalance[];
+  totals: PortfolioTotals;
+  protocols: ProtocolStatus[];
+  fetchedAt: string;
+}
+
+export type PortfolioResponse = Portfolio & { protocols: ProtocolStatus[]; fetchedAt: string };
+
+/** Shared state of the route handlers */
+export interface RouteContext {
+  rpcUrl?: string;
+  network?: NetworkId;
+  subAccountIds?: number[];
+  startedAt: number;
+  positionsCache: ResponseCache<PositionsResponse>;
+  portfolioCache: ResponseCache<PortfolioResponse>;
+}
+
+/** Request validation failure, answered with 400 */
+class BadRequestError extends Error {}
+
+/**
+ * GET /positions/:owner?protocols=drift,jupiter
+ */
+export async function handlePositions(context: RouteContext, owner: string, url: URL): Promise<Response> {
+  return handleRequest(async () => {
+    if (!isValidPublicKey(owner)) {
+      throw new BadRequestError(`Invalid wallet address: ${owner}`);
+    }
+    const protocols = parseProtocols(url);
+
+    const { value, hit } = await context.positionsCache.getOrLoad(cacheKey([owner], protocols), async () => {
+      const walletResults = await fetchWalletResults([owner], protocols, {
+        rpcUrl: context.rpcUrl,
+        network: context.network,
+        subAccountIds: context.subAccountIds,
+      });
+      const { positions, spotBalances, totals } = buildPortfolio(walletResults);
+      return {
+        owner,
+        positions,
+        spotBalances,
+        totals,
+        protocols: toProtocolStatuses(walletResults),
+        fetchedAt: isoNow(),
+      };
+    });
+    return jsonResponse(value, 200, hit);
+  });
+}
+
+/**
+ * GET /portfolio?owners=<a>,<b>&protocols=drift,jupiter
+ */
+export async function handlePortfolio(context: RouteContext, url: URL): Promise<Response> {
+  return handleRequest(async () => {
+    const { value, hit } = await loadPortfolio(context, parseOwners(url), parseProtocols(url));
+    return jsonResponse(value, 200, hit);
+  });
+}
+
+/**
+ * GET /exposure?owners=<a>,<b>&protocols=drift,jupiter
+ * Built from the same cached fetch as /portfolio
+ */
+export async function handleExposure(context: RouteContext, url: URL): Promise<Response> {
+  return handleRequest(async () => {
+    const { value, hit } = await loadPortfolio(context, parseOwners(url), parseProtocols(url));
+    const { positions, spotBalances, protocols, fetchedAt } = value;
+    return jsonResponse({ ...buildExposureReport(positions, spotBalances), protocols, fetchedAt }, 200, hit);
+  });
+}
+
+/**
+ * GET /health: liveness only, never touches the RPC
+ */
+export function handleHealth(context: RouteContext): Response {
+  return jsonResponse({ status: "ok", uptimeSeconds: Math.floor((Date.now() - context.startedAt) / 1000) });
+}
+
+/**
+ * GET /status: RPC reachability, per-endpoint health and registered protocols; 503 when no RPC endpoint can be reached
+ */
+export async function handleStatus(context: RouteContext): Promise<Response> {
+  const connection = createRpcConnection(context.rpcUrl, context.network);
+  const startedAt = Date.now();
+  // Report hosts only: the URLs may carry an API key
+  const rpc = {
+    host: new URL(connection.rpcEndpoint).host,
+    reachable: false,
+    latencyMs: 0,
+    slot: undefined as number | undefined,
+    endpoints: [] as RpcEndpointHealth[],
+  };
+
+  try {
+    rpc.slot = await withTimeout(connection.getSlot(), RPC_PROBE_TIMEOUT_MS);
+    rpc.reachable = true;
+  } catch (error) {
+    logger.warn(`⚠️ RPC probe failed: ${getErrorDetails(error).message}`);
+  }
+  rpc.latencyMs = Date.now() - startedAt;
+  rpc.endpoints = getRpcPool(resolveRpcUrls(context.rpcUrl, context.network)).getHealth();
+
+  const protocols = getAdapters().map((adapter) => ({ id: adapter.id, displayName: adapter.displayName }));
+  const network = getNetworkProfile(context.network).id;
+  return jsonResponse(
+    { status: rpc.reachable ? "ok" : "degraded", network, rpc, protocols },
+    rpc.reachable ? 200 : 503,
+  );
+}
+
+/**
+ * Fallback for unknown routes
+ */
+export function handleNotFound(request: Request): Response {
+  return jsonResponse({ error: `Not found: ${request.method} ${new URL(request.url).pathname}` }, 404);
+}
+
+async function handleRequest(handler: () => Promise<Response>): Promise<Response> {
+  try {
+    return await handler();
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      return jsonResponse({ error: error.message }, 400);
+    }
+    logger.error(`❌ API request failed: ${getErrorDetails(error).message}`);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+}
+
+/**
+ * Parse the required `owners` query parameter
+ * @throws BadRequestError when it is missing, too long or holds an invalid address
+ */
+function parseOwners(url: URL): string[] {
+  const owners = splitList(url.searchParams.get("owners"));
+  if (owners.length === 0) {
+    throw new BadRequestError("Missing query parameter: owners");
+  }
+  if (owners.length > MAX_PORTFOLIO_OWNERS) {
+    throw new BadRequestError(`Too many owners: ${owners.length} (max ${MAX_PORTFOLIO_OWNERS})`);
+  }
+  const invalidOwner = owners.find((owner) => !isValidPublicKey(owner));
+  if (invalidOwner) {
+    throw new BadRequestError(`Invalid wallet address: ${invalidOwner}`);
+  }
+  return owners;
+}
+
+/**
+ * Parse the optional `protocols` query parameter
+ * @throws BadRequestError on an unknown protocol id
+ */
+function parseProtocols(url: URL): ProtocolId[] | undefined {
+  const protocols = splitList(url.searchParams.get("protocols"));
+  if (protocols.length === 0) {
+    return undefined;
+  }
+
+  try {
+    getAdapters(protocols);
+  } catch (error) {
+    throw new BadRequestError(getErrorDetails(error).message);
+  }
+  return protocols;
+}
+
+/**
+ * Portfolio of the wallets, from the cache when fresh
+ */
+function loadPortfolio(
+  context: RouteContext,
+  owners: string[],
+  protocols?: ProtocolId[],
+): Promise<{ value: PortfolioResponse; hit: boolean }> {
+  return context.portfolioCache.getOrLoad(cacheKey(owners, protocols), async () => {
+    const walletResults = await fetchWalletResults(owners, protocols, {
+      rpcUrl: context.rpcUrl,
+      network: context.network,
+      subAccountIds: context.subAccountIds,
+    });
+    return { ...buildPortfolio(walletResults), protocols: toProtocolStatuses(walletResults), fetchedAt: isoNow() };
+  });
+}
+
+function toProtocolStatuses(walletResults: WalletFetchResult[]): ProtocolStatus[] {
+  return walletResults.flatMap(({ owner, results, error }) => {
+    if (error !== undefined) {
+      const { code, message } = toPositionFetchError(error);
+      return [{ owner, protocol: "*", status: "error", durationMs: 0, error: message, errorCode: code }];
+    }
+    return results.map((result) => toProtocolStatus(owner, result));
+  });
+}
+
+function toProtocolStatus(owner: string, result: AdapterFetchResult): ProtocolStatus {
+  const base = { owner, protocol: result.adapterId, durationMs: result.durationMs };
+  if (result.status === "rejected") {
+    return { ...base, status: "error", error: result.error.message, errorCode: result.error.code };
+  }
+  return {
+    ...base,
+    status: result.errors.length > 0 ? "partial" : "ok",
+    positionCount: result.positions.length,
+    warnings: result.warnings,
+    errors: result.errors,
+  };
+}
+
+function jsonResponse(body: unknown, status = 200, cacheHit?: boolean): Response {
+  const headers: Record<string, string> = {};
+  if (cacheHit !== undefined) {
+    headers["X-Cache"] = cacheHit ? "HIT" : "MISS";
+  }
+  return Response.json(body, { status, headers });
+}
+
+function splitList(value: string | null): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function cacheKey(owners: string[], protocols?: ProtocolId[]): string {
+  return `${owners.join(",")}|${protocols ? [...protocols].sort().join(",") : "*"}`;
+}
+
+function isoNow(): string {
+  return new Date().toISOString();
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,74 @@
+import {
+  BulkAccountLoader,
+  DriftClient,
+  getUserAccountPublicKey,
+  initialize,
+  PerpMarkets,
+  SpotMarkets,
+  User,
+  Wallet,
+} from "@drift-labs/sdk";
+import { type Connection, Keypair, PublicKey } from "@solana/web3.js";
+
+/**
+ * Drift client and users loaded once from a (replayed) connection (not part of the public surface)
+ * Polling subscriptions read their accounts with single batched requests, so the same requests replay every run
+ */
+
+const ENV = "mainnet-beta";
+
+/** Markets loaded by the client: SOL-PERP on the USDC and SOL spot markets */
+const PERP_MARKET_INDEXES = [0];
+const SPOT_MARKET_INDEXES = [0, 1];
+
+/**
+ * Subscribe a Drift client to the state, markets and oracles of the fixture markets
+ * Loading is one-shot: the account loader never polls
+ */
+export async function subscribeDriftClient(connection: Connection): Promise<DriftClient> {
+  const markets = [
+    ...PerpMarkets[ENV].filter((market) => PERP_MARKET_INDEXES.includes(market.marketIndex)),
+    ...SpotMarkets[ENV].filter((market) => SPOT_MARKET_INDEXES.includes(market.marketIndex)),
+  ];
+
+  const driftClient = new DriftClient({
+    connection,
+    wallet: new Wallet(Keypair.generate()),
+    programID: new PublicKey(initialize({ env: ENV }).DRIFT_PROGRAM_ID),
+    env: ENV,
+    perpMarketIndexes: PERP_MARKET_INDEXES,
+    spotMarketIndexes: SPOT_MARKET_INDEXES,
+    oracleInfos: markets.map((market) => ({ publicKey: market.oracle, source: market.oracleSource })),
+    skipLoadUsers: true,
+    accountSubscription: { type: "polling", accountLoader: new BulkAccountLoader(connection, "confirmed", 0) },
+  });
+
+  await driftClient.subscribe();
+  return driftClient;
+}
+
+/**
+ * Subscribe a sub-account of the authority; its account is read with one getAccountInfo request
+ */
+export async function subscribeDriftUser(
+  driftClient: DriftClient,
+  authority: string,
+  subAccountId: number,
+): Promise<User> {
+  const userAccountPublicKey = await getUserAccountPublicKey(
+    driftClient.program.programId,
+    new PublicKey(authority),
+    subAccountId,
+  );
+  const user = new User({
+    driftClient,
+    userAccountPublicKey,
+    accountSubscription: {
+      type: "polling",
+      accountLoader: new BulkAccountLoader(driftClient.connection, "confirmed", 0),
+    },
+  });
+
+  await user.subscribe();
+  return user;
+}
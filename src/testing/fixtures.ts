@@ -0,0 +1,62 @@
+import type { Position, SpotBalance } from "../types";
+import { Decimal } from "../utils";
+
+/**
+ * Fixture factories shared by the test files (not part of the public surface)
+ */
+
+export const TEST_OWNER = "86oHY5tUBn4gqHSQAZJSUX6MU7WJVpg8bn8MZ4jKEb63";
+export const TEST_DRIFT_ACCOUNT = "5BUwFW4nRbftYTDMbgxykoFWqWHPzahFSNAaaaJtVKsq";
+
+/**
+ * Position with zero amounts; Drift positions share one user account, other protocols get one account per position
+ */
+export function createPosition(
+  protocol: string,
+  symbol: string,
+  direction: Position["direction"],
+  overrides: Partial<Position> = {},
+): Position {
+  return {
+    schemaVersion: 2,
+    protocol,
+    owner: TEST_OWNER,
+    accountAddress: protocol === "drift" ? TEST_DRIFT_ACCOUNT : `${protocol}-${symbol}-${direction}`,
+    symbol,
+    sizeUsd: Decimal.ZERO,
+    baseAmount: Decimal.ZERO,
+    direction,
+    pnl: Decimal.ZERO,
+    entryPrice: Decimal.ZERO,
+    markPrice: Decimal.ZERO,
+    leverage: 1,
+    protocolMarketId: symbol,
+    ...overrides,
+  };
+}
+
+/**
+ * Drift spot balance of tokenAmount tokens valued at price
+ */
+export function createSpotBalance(
+  symbol: string,
+  side: SpotBalance["side"],
+  tokenAmount: string,
+  price: string,
+  overrides: Partial<SpotBalance> = {},
+): SpotBalance {
+  return {
+    protocol: "drift",
+    owner: TEST_OWNER,
+    accountAddress: TEST_DRIFT_ACCOUNT,
+    symbol,
+    side,
+    tokenAmount: Decimal.parse(tokenAmount),
+    usdValue: Decimal.parse(tokenAmount).mul(Decimal.parse(price)),
+    price: Decimal.parse(price),
+    depositAprPercent: 3,
+    borrowAprPercent: 8,
+    protocolMarketId: symbol,
+    ...overrides,
+  };
+}
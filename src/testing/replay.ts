@@ -0,0 +1,36 @@
+import { afterAll, beforeAll, setSystemTime } from "bun:test";
+import { join } from "node:path";
+import { createRecordingFetch, createReplayFetch, type HttpFetch, setHttpFetch } from "../utils";
+
+/**
+ * Recorded RPC and quote API responses shared by the test files (not part of the public surface)
+ *
+ * Tests replay fixtures/rpc by default; FIXTURE_MODE=record runs them against the network and overwrites the
+ * fixtures. Update FIXTURE_RECORDED_AT and the expected values after recording.
+ */
+
+export const FIXTURE_DIR = join(import.meta.dir, "../../fixtures/rpc");
+
+/** Endpoint used for recording; replayed JSON-RPC fixtures are keyed by method and params only */
+export const FIXTURE_RPC_URL = process.env.FIXTURE_RPC_URL || "https://api.mainnet-beta.solana.com";
+
+/** When the fixtures were recorded: replays run at this time, since Jupiter borrow fees accrue with the clock */
+export const FIXTURE_RECORDED_AT = new Date("2026-10-16T14:23:07Z");
+
+/**
+ * Serve the HTTP requests of the calling test file from fixtures, or record them with FIXTURE_MODE=record
+ */
+export function useFixtureHttp(): void {
+  const recording = process.env.FIXTURE_MODE === "record";
+  let previousFetch: HttpFetch | undefined;
+
+  beforeAll(() => {
+    previousFetch = setHttpFetch(recording ? createRecordingFetch(FIXTURE_DIR) : createReplayFetch(FIXTURE_DIR));
+    if (!recording) setSystemTime(FIXTURE_RECORDED_AT);
+  });
+
+  afterAll(() => {
+    if (previousFetch) setHttpFetch(previousFetch);
+    setSystemTime();
+  });
+}
@@ -0,0 +1,133 @@
+import type { NetworkId } from "../constants/network";
+import type { Decimal } from "../utils/decimal";
+import type { PositionFetchError } from "../utils/error";
+import type { Position, SpotBalance } from "./index";
+
+/** Protocol identifier used by the adapter registry (e.g., "drift", "jupiter") */
+export type ProtocolId = string;
+
+/**
+ * Features a protocol adapter supports
+ * Callers can use these flags to decide which optional Position fields to expect
+ */
+export interface PerpProtocolCapabilities {
+  /** Positions can live in several sub-accounts of one authority */
+  subAccounts: boolean;
+  /** Margin is shared across positions (account-level health) */
+  crossMargin: boolean;
+  /** Positions carry a liquidation price */
+  liquidationPrice: boolean;
+  /** Position PnL is net of protocol fees */
+  feesInPnl: boolean;
+  /** Positions pay periodic funding and carry funding figures */
+  funding: boolean;
+}
+
+/** Options shared by every adapter's position fetch */
+export interface FetchPositionsOptions {
+  /** Solana RPC URL, or comma-separated URLs tried in order, overriding the default endpoints */
+  rpcUrl?: string;
+  /** Network profile selecting endpoints, program ids and market tables (default: DEFAULT_NETWORK) */
+  network?: NetworkId;
+  /** Sub-accounts to read on protocols with sub-accounts (default: every existing one); ignored elsewhere */
+  subAccountIds?: number[];
+}
+
+/**
+ * Category of a fetch problem, shared by thrown errors and the issues of partial results
+ * - RPC_UNAVAILABLE: the RPC endpoint could not be reached, failed or disabled the method
+ * - RATE_LIMITED: the RPC endpoint rejected the request with HTTP 429
+ * - ACCOUNT_NOT_FOUND: a required on-chain account does not exist
+ * - DECODE_ERROR: account data could not be decoded
+ * - PRICE_UNAVAILABLE: no usable price for a market
+ * - UNSUPPORTED_MARKET: the position is in a market the adapter does not know
+ * - INVALID_POSITION: an adapter returned a position that does not match the Position schema
+ * - UNKNOWN: anything else
+ */
+export type FetchErrorCode =
+  | "RPC_UNAVAILABLE"
+  | "RATE_LIMITED"
+  | "ACCOUNT_NOT_FOUND"
+  | "DECODE_ERROR"
+  | "PRICE_UNAVAILABLE"
+  | "UNSUPPORTED_MARKET"
+  | "INVALID_POSITION"
+  | "UNKNOWN";
+
+/** Problem that affected part of a fetch (one account, market or price) */
+export interface FetchIssue {
+  code: FetchErrorCode;
+  message: string;
+  /** Account address or market the issue refers to */
+  subject?: string;
+}
+
+/**
+ * Positions of one wallet on one protocol with everything that went wrong along the way
+ * Errors are positions or accounts that were skipped; warnings are positions returned with degraded data
+ */
+export interface PositionFetchResult {
+  positions: Position[];
+  /** Spot deposits and borrows (protocols with spot balances in their margin accounts only) */
+  spotBalances?: SpotBalance[];
+  warnings: FetchIssue[];
+  errors: FetchIssue[];
+}
+
+/** Receives the full, current position set of one wallet on one protocol, with its spot balances where it has any */
+export type PositionListener = (positions: Position[], spotBalances?: SpotBalance[]) => void;
+
+/** Live position subscription returned by an adapter */
+export interface PositionSubscription {
+  /** Recompute positions with fresh prices and emit them */
+  refresh(): Promise<void>;
+  /** Stop every underlying subscription */
+  close(): Promise<void>;
+}
+
+/** Market listed by a protocol adapter */
+export interface MarketInfo {
+  /** Market symbol (e.g., "SOL", "BTC") */
+  symbol: string;
+  /** Protocol-specific market identifier, in the same form as Position.protocolMarketId */
+  protocolMarketId: string;
+}
+
+/**
+ * Perpetuals protocol adapter
+ * Every venue implements this interface and registers itself in the adapter registry
+ */
+export interface PerpProtocolAdapter {
+  id: ProtocolId;
+  /** Human-readable protocol name (e.g., "Drift Protocol") */
+  displayName: string;
+  capabilities: PerpProtocolCapabilities;
+  /**
+   * Fetch open positions for a wallet address
+   * @throws PositionFetchError when nothing could be fetched (e.g., RPC unavailable)
+   */
+  fetchPositions(owner: string, options?: FetchPositionsOptions): Promise<PositionFetchResult>;
+  /**
+   * Subscribe to position changes; the listener is called once with the initial set before this resolves
+   * Adapters without it are polled by the watcher
+   */
+  watchPositions?(
+    owner: string,
+    onUpdate: PositionListener,
+    options?: FetchPositionsOptions,
+  ): Promise<PositionSubscription>;
+  /**
+   * PnL of one of the adapter's positions at another mark price, with the protocol's own PnL math
+   * Used by scenario simulation; positions of adapters without it are repriced linearly on their base amount
+   */
+  calculatePnlAtPrice?(position: Position, markPrice: Decimal): Decimal;
+  /** List markets the protocol supports; markets are read from options.network, on-chain through options.rpcUrl where needed */
+  listMarkets(options?: FetchPositionsOptions): Promise<MarketInfo[]>;
+}
+
+/** Outcome of querying a single adapter */
+export type AdapterFetchResult = {
+  adapterId: ProtocolId;
+  displayName: string;
+  durationMs: number;
+} & (({ status: "fulfilled" } & PositionFetchResult) | { status: "rejected"; error: PositionFetchError });
@@ -0,0 +1,53 @@
+import type { ProtocolId } from "./adapter";
+import type { Position } from "./index";
+
+/** Restricts a rule to matching positions; omitted fields match everything */
+export interface AlertRuleFilter {
+  owner?: string;
+  protocol?: ProtocolId;
+  symbol?: string;
+}
+
+interface AlertRuleBase extends AlertRuleFilter {
+  /** Stable rule id used in alert keys (default: `<type>#<index>`) */
+  id: string;
+}
+
+/**
+ * Alert rule
+ * - pnl_below: unrealized PnL in USD below threshold
+ * - leverage_above: position leverage above threshold
+ * - price_move: mark price moved at least `percent` % from the entry price, in either direction
+ * - position_opened / position_closed: position appeared or disappeared since the previous cycle
+ */
+export type AlertRule =
+  | (AlertRuleBase & { type: "pnl_below"; threshold: number })
+  | (AlertRuleBase & { type: "leverage_above"; threshold: number })
+  | (AlertRuleBase & { type: "price_move"; percent: number })
+  | (AlertRuleBase & { type: "position_opened" | "position_closed" });
+
+export type AlertRuleType = AlertRule["type"];
+
+/** Webhook receiving alerts as Slack / Discord compatible JSON */
+export interface WebhookConfig {
+  url: string;
+}
+
+/** Alert configuration file contents */
+export interface AlertConfig {
+  rules: AlertRule[];
+  webhooks: WebhookConfig[];
+  /** Minimum seconds between two alerts with the same key */
+  cooldownSeconds: number;
+}
+
+/** Triggered alert */
+export interface Alert {
+  ruleId: string;
+  type: AlertRuleType;
+  /** Rule id + position identity; used for de-duplication and cooldowns */
+  key: string;
+  message: string;
+  position: Position;
+  triggeredAt: string;
+}
@@ -0,0 +1,51 @@
+import type { Decimal } from "../utils/decimal";
+import type { ProtocolId } from "./adapter";
+
+/**
+ * Exposure to one underlying asset across protocols
+ * Longs and spot deposits add to the exposure, shorts and spot borrows subtract from it; USD values are at mark price
+ */
+export interface AssetExposure {
+  /** Asset id shared across protocols (e.g., "BTC" for Drift BTC-PERP, a Jupiter BTC position and a Drift wBTC deposit) */
+  assetId: string;
+  /** Protocol symbols mapped to the asset */
+  symbols: string[];
+  protocols: ProtocolId[];
+  positionCount: number;
+  spotBalanceCount: number;
+  /** Net amount in asset units (longs and deposits positive, shorts and borrows negative) */
+  netBaseAmount: Decimal;
+  /** Net USD delta: long notional minus short notional */
+  netNotionalUsd: Decimal;
+  /** Notional of longs and deposits in USD */
+  longNotionalUsd: Decimal;
+  /** Notional of shorts and borrows in USD */
+  shortNotionalUsd: Decimal;
+  /** Long plus short notional in USD */
+  grossNotionalUsd: Decimal;
+  /** Whether protocols hold offsetting exposure: at least one is net long and another net short */
+  hedged: boolean;
+  /** Notional offset between protocols in USD (0 when not hedged) */
+  hedgedNotionalUsd: Decimal;
+}
+
+/** Exposure totals over all assets */
+export interface ExposureTotals {
+  longNotionalUsd: Decimal;
+  shortNotionalUsd: Decimal;
+  grossNotionalUsd: Decimal;
+  netNotionalUsd: Decimal;
+  /**
+   * Collateral backing the exposure in USD
+   * Net asset value of every cross-margin account (counted once) plus the collateral of isolated positions
+   */
+  collateralUsd: Decimal;
+  /** Gross notional / collateral (0 without collateral) */
+  effectiveLeverage: number;
+}
+
+/** Cross-protocol exposure per underlying asset, largest gross exposure first */
+export interface ExposureReport {
+  assets: AssetExposure[];
+  totals: ExposureTotals;
+}
@@ -1,19 +1,220 @@
+import type { Decimal } from "../utils/decimal";
+import type { FetchIssue, ProtocolId } from "./adapter";
+
+/**
+ * Open perp position, normalized across protocols
+ * Every adapter returns exactly this shape; the registry checks it at runtime (see validatePosition)
+ * Prices, sizes and USD amounts are exact Decimals; ratios and percentages are numbers
+ */
 export interface Position {
+  /** Version of this shape, bumped on breaking changes */
+  schemaVersion: 2;
+  /** Protocol the position was fetched from (adapter id, e.g., "drift", "jupiter") */
+  protocol: ProtocolId;
+  /** Wallet address owning the position */
+  owner: string;
+  /** On-chain account holding the position (Drift user account, Jupiter position account) */
+  accountAddress: string;
   /** Market symbol (e.g., "SOL", "BTC", "ETH") */
   symbol: string;
   /** Position size in USD value */
-  sizeUsd: number;
+  sizeUsd: Decimal;
   /** Position size in base asset amount (e.g., SOL amount for SOL-PERP) */
-  baseAmount: number;
+  baseAmount: Decimal;
   direction: "LONG" | "SHORT";
-  /** Unrealized PnL in USD */
-  pnl: number;
-  entryPrice: number;
-  markPrice: number;
+  /** Unrealized PnL in USD, including unsettled funding */
+  pnl: Decimal;
+  entryPrice: Decimal;
+  markPrice: Decimal;
+  /** Where the mark price came from */
+  markPriceSource?: PriceSource;
   leverage: number;
-  /** Protocol-specific market identifier (optional for internal use) */
-  protocolMarketId?: string | number;
+  /** Estimated liquidation price (undefined when it cannot be derived) */
+  liquidationPrice?: Decimal;
+  /** Distance from mark price to liquidation price in % of mark price (negative once past liquidation) */
+  liquidationDistancePercent?: number;
+  /** Protocol-specific market identifier (Drift market index, Jupiter custody address), always a string */
+  protocolMarketId: string;
+  /** Sub-account id for protocols with multiple accounts per authority (e.g., Drift) */
+  subAccountId?: number;
+  /** When the position was opened (ISO 8601, protocols that record it only) */
+  openedAt?: string;
+  /** When the position was last modified on-chain (ISO 8601, protocols that record it only) */
+  updatedAt?: string;
+  /** Fees owed on the position (protocols that charge them per position only) */
+  fees?: PositionFees;
+  /** Margin figures of the account holding the position (cross-margin protocols only) */
+  accountMargin?: AccountMargin;
+  /** Funding figures (protocols with periodic funding only) */
+  funding?: PositionFunding;
+  /** Collateral backing the position (isolated-margin protocols only) */
+  collateral?: PositionCollateral;
+}
+
+/**
+ * Token deposit or borrow of a cross-margin account
+ * Deposits are collateral and long exposure to the token; borrows are liabilities and short exposure
+ */
+export interface SpotBalance {
+  /** Protocol the balance was fetched from (adapter id) */
+  protocol: ProtocolId;
+  /** Wallet address owning the account */
+  owner: string;
+  /** On-chain account holding the balance (Drift user account) */
+  accountAddress: string;
+  /** Token symbol (e.g., "USDC", "SOL") */
+  symbol: string;
+  side: "DEPOSIT" | "BORROW";
+  /** Deposited or borrowed amount in token units, including accrued interest */
+  tokenAmount: Decimal;
+  /** Token amount valued at the oracle price in USD */
+  usdValue: Decimal;
+  /** Oracle price of the token */
+  price: Decimal;
+  /** Current deposit rate of the token's market in % per year */
+  depositAprPercent: number;
+  /** Current borrow rate of the token's market in % per year */
+  borrowAprPercent: number;
+  /** Protocol-specific market identifier (Drift spot market index), always a string */
+  protocolMarketId: string;
+  /** Sub-account id for protocols with multiple accounts per authority (e.g., Drift) */
+  subAccountId?: number;
+  /** Margin figures of the account holding the balance */
+  accountMargin?: AccountMargin;
+}
+
+/** Fetch problem of one wallet; protocol is undefined when the whole wallet failed */
+export interface FetchFailure extends FetchIssue {
+  owner: string;
+  protocol?: ProtocolId;
+}
+
+/** Totals over a set of positions and spot balances */
+export interface PortfolioTotals {
+  positionCount: number;
+  /** Sum of position sizes in USD */
+  notionalUsd: Decimal;
+  /** Sum of unrealized PnL in USD */
+  pnl: Decimal;
+  spotBalanceCount: number;
+  /** Spot deposits minus spot borrows in USD */
+  netSpotUsd: Decimal;
+  /** Net asset value of the cross-margin accounts in the set, each account counted once */
+  accountEquity: Decimal;
+}
+
+/**
+ * Aggregate over a group of positions and spot balances (one wallet, protocol or symbol)
+ * Base amount and entry price only make sense within one symbol, so they are undefined for mixed groups
+ */
+export interface PortfolioRollup extends PortfolioTotals {
+  /** Group key (wallet address, protocol id or symbol) */
+  key: string;
+  /** Net base amount (longs and deposits positive, shorts and borrows negative) */
+  netBaseAmount?: Decimal;
+  /** Entry price of the positions weighted by base amount (spot balances have no entry price) */
+  averageEntryPrice?: Decimal;
+}
+
+/** Positions and spot balances of several wallets with totals and rollups */
+export interface Portfolio {
+  owners: string[];
+  positions: Position[];
+  spotBalances: SpotBalance[];
+  /** Failed fetches and skipped positions */
+  failures: FetchFailure[];
+  /** Positions returned with degraded data */
+  warnings: FetchFailure[];
+  totals: PortfolioTotals;
+  rollups: {
+    byWallet: PortfolioRollup[];
+    byProtocol: PortfolioRollup[];
+    bySymbol: PortfolioRollup[];
+  };
+}
+
+/**
+ * Mark price source
+ * - oracle: on-chain oracle account read by the protocol program
+ * - quote: swap quote (includes slippage and routing effects)
+ */
+export type PriceSource = "oracle" | "quote";
+
+/**
+ * Account-level margin figures, shared by every position in the same cross-margin account
+ * USD values are exact decimals (already divided by protocol precision)
+ */
+export interface AccountMargin {
+  /** Account health from 0 (liquidatable) to 100 */
+  health: number;
+  /** Net asset value in USD (spot assets + perp PnL - spot liabilities) */
+  netAssetValue: Decimal;
+  /** Weighted collateral counted towards the maintenance margin in USD */
+  totalCollateral: Decimal;
+  /** Collateral required to avoid liquidation in USD */
+  maintenanceMarginRequirement: Decimal;
+  /** Collateral required to open new positions in USD */
+  initialMarginRequirement: Decimal;
+  /** Collateral available for new positions or withdrawals in USD */
+  freeCollateral: Decimal;
+  /** Account leverage (total liability / net asset value) */
+  leverage: number;
+}
+
+/**
+ * Funding of a perp position
+ * USD values and rates are from the position's point of view: positive is received, negative is paid
+ */
+export interface PositionFunding {
+  /** Funding accrued since the last settlement in USD (already included in pnl) */
+  unsettledPnl: Decimal;
+  /**
+   * Funding settled since the position opened in USD, including trading fees
+   * The protocol books settled funding and fees into the same amount, so they cannot be told apart
+   */
+  settledPnlWithFees: Decimal;
+  /** Last hourly funding rate applied to the position's side, in % of notional */
+  lastHourlyRatePercent: number;
+  /** Estimated rate of the next hourly funding payment in % of notional (undefined when it cannot be estimated) */
+  predictedHourlyRatePercent?: number;
+}
+
+/**
+ * Fees owed on a position in USD, deducted when it is closed
+ */
+export interface PositionFees {
+  /** Borrow fee accrued since the position was opened or last modified */
+  borrowUsd: Decimal;
+  /** Estimated fee to close the full position */
+  closeUsd: Decimal;
+}
+
+/**
+ * Collateral of an isolated-margin position
+ * Amounts are exact decimals (already divided by token decimals)
+ */
+export interface PositionCollateral {
+  /** Collateral token symbol (e.g., the underlying for Jupiter longs, "USDC" or "USDT" for shorts) */
+  symbol: string;
+  /** Collateral in token units (undefined when the collateral token has no price) */
+  tokenAmount?: Decimal;
+  /** Collateral value in USD */
+  usdValue: Decimal;
+  /** Collateral tokens the protocol locked to pay out the position's maximum profit */
+  lockedAmount: Decimal;
+  /** Protocol-specific collateral identifier (e.g., Jupiter collateral custody address) */
+  protocolCollateralId: string;
 }
 
+// Export adapter types
+export * from "./adapter";
+// Export alert types
+export * from "./alert";
+// Export exposure report types
+export * from "./exposure";
 // Export Jupiter-specific types
 export * from "./jupiter";
+// Export scenario simulation types
+export * from "./scenario";
+// Export snapshot history types
+export * from "./snapshot";
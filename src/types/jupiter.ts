@@ -36,6 +36,149 @@ export interface JupiterPositionAccount {
   bump: number;
 }
 
+/**
+ * Jupiter Perps custody account structure (one per pool asset: SOL, ETH, BTC, USDC, USDT)
+ * Only the leading fields we consume are decoded; trailing fields are ignored by the coder.
+ */
+export interface JupiterCustodyAccount {
+  /** Pool public key this custody belongs to */
+  pool: PublicKey;
+  /** Token mint held by the custody */
+  mint: PublicKey;
+  /** Token account holding the custody's assets */
+  tokenAccount: PublicKey;
+  /** Token decimals */
+  decimals: number;
+  /** Whether the custody holds a stablecoin */
+  isStable: boolean;
+  /** Oracle configuration */
+  oracle: JupiterOracleParams;
+  /** Pricing parameters (max leverage, spreads) */
+  pricing: JupiterPricingParams;
+  /** Permission flags */
+  permissions: JupiterPermissions;
+  /** Target pool weight in BPS */
+  targetRatioBps: BN;
+  /** Custody asset balances */
+  assets: JupiterAssets;
+  /** Borrow rate accumulator */
+  fundingRateState: JupiterFundingRateState;
+  bump: number;
+  tokenAccountBump: number;
+  /** Open position fee in BPS */
+  increasePositionBps: BN;
+  /** Close position fee in BPS */
+  decreasePositionBps: BN;
+  /** Maximum position size in USD (with 6 decimal precision) */
+  maxPositionSizeUsd: BN;
+  /** Doves oracle public key */
+  dovesOracle: PublicKey;
+  /** Utilization-based borrow rate curve */
+  jumpRateState: JupiterJumpRateState;
+  /** Doves aggregated oracle public key */
+  dovesAgOracle: PublicKey;
+}
+
+export interface JupiterOracleParams {
+  oracleAccount: PublicKey;
+  oracleType: JupiterOracleType;
+  buffer: BN;
+  maxPriceAgeSec: BN;
+}
+
+export type JupiterOracleType =
+  | { none: Record<string, never> }
+  | { test: Record<string, never> }
+  | { pyth: Record<string, never> };
+
+export interface JupiterPricingParams {
+  tradeImpactFeeScalar: BN;
+  buffer: BN;
+  swapSpread: BN;
+  /** Maximum leverage in BPS (e.g. 5_000_000 = 500x) */
+  maxLeverage: BN;
+  maxGlobalLongSizes: BN;
+  maxGlobalShortSizes: BN;
+}
+
+export interface JupiterPermissions {
+  allowSwap: boolean;
+  allowAddLiquidity: boolean;
+  allowRemoveLiquidity: boolean;
+  allowIncreasePosition: boolean;
+  allowDecreasePosition: boolean;
+  allowCollateralWithdrawal: boolean;
+  allowLiquidatePosition: boolean;
+}
+
+export interface JupiterAssets {
+  feesReserves: BN;
+  owned: BN;
+  locked: BN;
+  guaranteedUsd: BN;
+  globalShortSizes: BN;
+  globalShortAveragePrices: BN;
+}
+
+export interface JupiterFundingRateState {
+  /** Cumulative borrow rate (RATE_POWER precision) */
+  cumulativeInterestRate: BN;
+  /** Unix timestamp of the last accumulator update */
+  lastUpdate: BN;
+  /** Hourly borrow rate in DBPS */
+  hourlyFundingDbps: BN;
+}
+
+export interface JupiterJumpRateState {
+  minRateBps: BN;
+  maxRateBps: BN;
+  targetRateBps: BN;
+  targetUtilizationRate: BN;
+}
+
+/**
+ * Jupiter Perps pool account structure (the JLP pool)
+ */
+export interface JupiterPoolAccount {
+  /** Pool name (e.g. "Pool") */
+  name: string;
+  /** Custody public keys of the pool assets */
+  custodies: PublicKey[];
+  /** Assets under management in USD (with 6 decimal precision) */
+  aumUsd: BN;
+  limit: JupiterPoolLimit;
+  fees: JupiterPoolFees;
+  poolApr: JupiterPoolApr;
+  maxRequestExecutionSec: BN;
+  bump: number;
+  lpTokenBump: number;
+  inceptionTime: BN;
+}
+
+export interface JupiterPoolLimit {
+  maxAumUsd: BN;
+  tokenWeightageBufferBps: BN;
+  maxPositionUsd: BN;
+}
+
+export interface JupiterPoolFees {
+  swapMultiplier: BN;
+  stableSwapMultiplier: BN;
+  addRemoveLiquidityBps: BN;
+  swapBps: BN;
+  taxBps: BN;
+  stableSwapBps: BN;
+  stableSwapTaxBps: BN;
+  liquidationRewardBps: BN;
+  protocolShareBps: BN;
+}
+
+export interface JupiterPoolApr {
+  lastUpdated: BN;
+  feeAprBps: BN;
+  realizedFeeUsd: BN;
+}
+
 /**
  * Jupiter Side enum - exactly matches actual API response structure
  */
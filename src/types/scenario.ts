@@ -0,0 +1,56 @@
+import type { Decimal } from "../utils/decimal";
+import type { ProtocolId } from "./adapter";
+import type { Position } from "./index";
+
+/** Price move per underlying asset id in % (e.g., { SOL: -20, BTC: 5 }); unlisted assets keep their price */
+export type PriceShocks = Record<string, number>;
+
+/** One position under a price scenario */
+export interface PositionScenarioResult {
+  owner: string;
+  protocol: ProtocolId;
+  accountAddress: string;
+  symbol: string;
+  /** Underlying asset id the shock was looked up by */
+  assetId: string;
+  direction: Position["direction"];
+  protocolMarketId: string;
+  subAccountId?: number;
+  /** Applied price move in % */
+  shockPercent: number;
+  /** Shocked mark price */
+  markPrice: Decimal;
+  /** Unrealized PnL at the shocked price */
+  pnl: Decimal;
+  /** PnL change against the fetched PnL */
+  pnlChange: Decimal;
+  /**
+   * Margin left at the shocked prices in USD: the account's net asset value for cross-margin positions,
+   * collateral plus PnL for isolated ones (undefined when the protocol reports neither)
+   */
+  marginUsd?: Decimal;
+  /** Whether the position would be liquidated at the shocked prices */
+  liquidated: boolean;
+}
+
+/** Whole portfolio under one set of price shocks */
+export interface ScenarioResult {
+  /** Shocks as a label (e.g., "SOL -20% BTC +5%"; "base" without shocks) */
+  name: string;
+  shocks: PriceShocks;
+  positions: PositionScenarioResult[];
+  /** Total unrealized PnL at the shocked prices */
+  pnl: Decimal;
+  /** Total PnL change against the fetched PnL */
+  pnlChange: Decimal;
+  /** Margin of every cross-margin account (counted once) and isolated position at the shocked prices */
+  marginUsd: Decimal;
+  liquidatedCount: number;
+}
+
+/** Results of several scenarios over the same positions, in input order */
+export interface ScenarioReport {
+  /** Asset ids shocked in at least one scenario */
+  assetIds: string[];
+  scenarios: ScenarioResult[];
+}
@@ -0,0 +1,44 @@
+import type { Decimal } from "../utils/decimal";
+import type { ProtocolId } from "./adapter";
+import type { Position } from "./index";
+
+/** Filters for snapshot history queries; omitted fields match everything */
+export interface SnapshotQuery {
+  owners?: string[];
+  protocols?: ProtocolId[];
+  symbol?: string;
+  /** Inclusive lower bound on the snapshot time */
+  since?: Date;
+  /** Inclusive upper bound on the snapshot time */
+  until?: Date;
+}
+
+/** One position in one snapshot */
+export interface PositionPnlPoint {
+  snapshotId: number;
+  takenAt: string;
+  owner: string;
+  protocol: ProtocolId;
+  /** On-chain account holding the position (undefined for snapshots saved before it was recorded) */
+  accountAddress?: string;
+  symbol: string;
+  protocolMarketId?: string;
+  subAccountId?: number;
+  direction: Position["direction"];
+  sizeUsd: Decimal;
+  entryPrice: Decimal;
+  markPrice: Decimal;
+  pnl: Decimal;
+  leverage: number;
+}
+
+/** Portfolio totals in one snapshot */
+export interface PortfolioPnlPoint {
+  snapshotId: number;
+  takenAt: string;
+  positionCount: number;
+  notionalUsd: Decimal;
+  pnl: Decimal;
+  /** Protocol fetches that failed in this snapshot; the totals are partial when non-zero */
+  failureCount: number;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test";
+import { BN } from "@coral-xyz/anchor";
+import { Decimal } from "./decimal";
+
+describe("Decimal", () => {
+  test("keeps protocol amounts beyond 2^53 exact", () => {
+    // $90 billion at 6 decimals is 9e16 units, past Number.MAX_SAFE_INTEGER
+    const size = Decimal.fromUnits(new BN("90000000000000001"), 6);
+    const total = Decimal.sum([size, size, Decimal.fromPrecision(new BN(1), new BN(1_000_000))]);
+
+    expect(size.toString()).toBe("90000000000.000001");
+    expect(total.toString()).toBe("180000000000.000003");
+    expect(total.toFixed(2)).toBe("180000000000.00");
+  });
+
+  test("adds and multiplies without float error", () => {
+    const tenth = Decimal.fromNumber(0.1);
+
+    expect(tenth.add(Decimal.fromNumber(0.2)).eq(Decimal.parse("0.3"))).toBe(true);
+    expect(Decimal.parse("145.5").mul(Decimal.parse("10.25")).toString()).toBe("1491.375");
+    expect(Decimal.fromNumber(1e21).toString()).toBe("1000000000000000000000");
+    expect(Decimal.fromNumber(1e-7).toString()).toBe("0.0000001");
+  });
+
+  test("rounds half away from zero", () => {
+    expect(Decimal.parse("2.345").toFixed(2)).toBe("2.35");
+    expect(Decimal.parse("-2.345").toFixed(2)).toBe("-2.35");
+    expect(Decimal.parse("-0.004").toFixed(2)).toBe("0.00");
+    expect(Decimal.parse("2").div(Decimal.parse("3"), 4).toString()).toBe("0.6667");
+  });
+
+  test("serializes to JSON as a number", () => {
+    expect(JSON.stringify({ pnl: Decimal.parse("-12.50") })).toBe('{"pnl":-12.5}');
+  });
+
+  test("rejects invalid input", () => {
+    expect(() => Decimal.parse("1e5")).toThrow("Invalid decimal");
+    expect(() => Decimal.fromNumber(Number.NaN)).toThrow(RangeError);
+    expect(() => Decimal.fromPrecision(new BN(1), new BN(25))).toThrow("power of ten");
+    expect(() => Decimal.ZERO.div(Decimal.ZERO)).toThrow("Division by zero");
+  });
+});
@@ -0,0 +1,229 @@
+import type { BN } from "@coral-xyz/anchor";
+
+/**
+ * Exact fixed-point decimal for USD amounts, prices and token amounts
+ * Values are a bigint of units at a decimal scale (e.g., 1_500_000n at scale 6 is 1.5), so protocol amounts keep
+ * their full precision at any size. Addition, subtraction and multiplication are exact; division and products
+ * beyond MAX_SCALE digits round half away from zero. Convert with toNumber() / toFixed() only at the output edge;
+ * JSON.stringify writes the value as a number.
+ */
+
+/** Fraction digits kept by divisions and long products */
+const MAX_SCALE = 18;
+
+export class Decimal {
+  static readonly ZERO = new Decimal(0n, 0);
+
+  private constructor(
+    /** Value in units of 10^-scale */
+    readonly units: bigint,
+    /** Number of fraction digits */
+    readonly scale: number,
+  ) {}
+
+  /**
+   * Decimal from an integer amount in protocol units
+   * @param units Raw amount (e.g., a BN read from an account)
+   * @param scale Decimals of the amount (e.g., 6 for Jupiter USD values)
+   */
+  static fromUnits(units: bigint | BN, scale: number): Decimal {
+    return new Decimal(typeof units === "bigint" ? units : BigInt(units.toString()), scale);
+  }
+
+  /**
+   * Decimal from a protocol amount and its precision constant (e.g., QUOTE_PRECISION)
+   * @throws Error if the precision is not a power of ten
+   */
+  static fromPrecision(value: BN, precision: BN): Decimal {
+    const digits = precision.toString();
+    if (!/^10*$/.test(digits)) {
+      throw new Error(`Precision must be a power of ten: ${digits}`);
+    }
+    return Decimal.fromUnits(value, digits.length - 1);
+  }
+
+  /**
+   * Decimal from a float, using its shortest round-trip representation (0.1 becomes exactly 0.1)
+   * @throws RangeError for NaN and infinities
+   */
+  static fromNumber(value: number): Decimal {
+    if (!Number.isFinite(value)) {
+      throw new RangeError(`Not a finite number: ${value}`);
+    }
+    return Decimal.parse(expandExponent(String(value)));
+  }
+
+  /**
+   * Parse a plain decimal string (e.g., "-1234.5678")
+   * @throws Error for anything else
+   */
+  static parse(text: string): Decimal {
+    const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(text.trim());
+    if (!match) {
+      throw new Error(`Invalid decimal: ${text}`);
+    }
+    const [, sign = "", whole = "", fraction = ""] = match;
+    const units = BigInt(`${whole}${fraction}`);
+    return new Decimal(sign ? -units : units, fraction.length);
+  }
+
+  static sum(values: readonly Decimal[]): Decimal {
+    return values.reduce((total, value) => total.add(value), Decimal.ZERO);
+  }
+
+  static max(first: Decimal, second: Decimal): Decimal {
+    return first.gte(second) ? first : second;
+  }
+
+  static min(first: Decimal, second: Decimal): Decimal {
+    return first.lte(second) ? first : second;
+  }
+
+  add(other: Decimal): Decimal {
+    const scale = Math.max(this.scale, other.scale);
+    return new Decimal(this.unitsAt(scale) + other.unitsAt(scale), scale);
+  }
+
+  sub(other: Decimal): Decimal {
+    return this.add(other.neg());
+  }
+
+  mul(other: Decimal): Decimal {
+    return new Decimal(this.units * other.units, this.scale + other.scale).round(MAX_SCALE);
+  }
+
+  /**
+   * @param scale Fraction digits of the quotient
+   * @throws RangeError on division by zero
+   */
+  div(divisor: Decimal, scale: number = MAX_SCALE): Decimal {
+    if (divisor.units === 0n) {
+      throw new RangeError("Division by zero");
+    }
+    // (a / 10^sa) / (b / 10^sb) = a * 10^(scale + sb - sa) / b, in units of 10^-scale
+    const shift = scale + divisor.scale - this.scale;
+    const numerator = shift >= 0 ? this.units * 10n ** BigInt(shift) : this.units;
+    const denominator = shift >= 0 ? divisor.units : divisor.units * 10n ** BigInt(-shift);
+    return new Decimal(divideRounded(numerator, denominator), scale);
+  }
+
+  /**
+   * Round half away from zero to at most `scale` fraction digits
+   */
+  round(scale: number): Decimal {
+    if (scale >= this.scale) return this;
+    return new Decimal(divideRounded(this.units, 10n ** BigInt(this.scale - scale)), scale);
+  }
+
+  neg(): Decimal {
+    return new Decimal(-this.units, this.scale);
+  }
+
+  abs(): Decimal {
+    return this.units < 0n ? this.neg() : this;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  isPositive(): boolean {
+    return this.units > 0n;
+  }
+
+  /** -1, 0 or 1 as this is less than, equal to or greater than other */
+  cmp(other: Decimal): -1 | 0 | 1 {
+    const scale = Math.max(this.scale, other.scale);
+    const difference = this.unitsAt(scale) - other.unitsAt(scale);
+    return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+  }
+
+  eq(other: Decimal): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  lt(other: Decimal): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: Decimal): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  gt(other: Decimal): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: Decimal): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  /**
+   * Integer amount in protocol units, the inverse of fromUnits
+   * @param scale Decimals of the unit (e.g., 6 for Jupiter USD values); finer digits round half away from zero
+   */
+  toUnits(scale: number): bigint {
+    return this.unitsAt(scale);
+  }
+
+  /** Nearest float; only for output, ratios and comparisons with float inputs */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /** Exact value with exactly `digits` fraction digits, rounded half away from zero */
+  toFixed(digits: number): string {
+    const rounded = this.round(digits);
+    return formatUnits(rounded.unitsAt(digits), digits);
+  }
+
+  /** Exact value without trailing fraction zeros */
+  toString(): string {
+    const text = formatUnits(this.units, this.scale);
+    return text.includes(".") ? text.replace(/\.?0+$/, "") : text;
+  }
+
+  toJSON(): number {
+    return this.toNumber();
+  }
+
+  private unitsAt(scale: number): bigint {
+    return scale >= this.scale ? this.units * 10n ** BigInt(scale - this.scale) : this.round(scale).units;
+  }
+}
+
+/** Integer division rounding half away from zero */
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n) return quotient;
+
+  const absRemainder = remainder < 0n ? -remainder : remainder;
+  const absDenominator = denominator < 0n ? -denominator : denominator;
+  if (2n * absRemainder < absDenominator) return quotient;
+  return numerator < 0n !== denominator < 0n ? quotient - 1n : quotient + 1n;
+}
+
+function formatUnits(units: bigint, scale: number): string {
+  const sign = units < 0n ? "-" : "";
+  const digits = (units < 0n ? -units : units).toString().padStart(scale + 1, "0");
+  if (scale === 0) return `${sign}${digits}`;
+  return `${sign}${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+}
+
+/** Rewrite exponent notation (String(1e21), String(1e-7)) as a plain decimal string */
+function expandExponent(text: string): string {
+  const match = /^(-?)(\d+)(?:\.(\d+))?e([+-]\d+)$/.exec(text);
+  if (!match) return text;
+
+  const [, sign = "", whole = "", fraction = "", exponent = "0"] = match;
+  const digits = `${whole}${fraction}`;
+  const pointIndex = whole.length + Number(exponent);
+  if (pointIndex <= 0) return `${sign}0.${"0".repeat(-pointIndex)}${digits}`;
+  if (pointIndex >= digits.length) return `${sign}${digits}${"0".repeat(pointIndex - digits.length)}`;
+  return `${sign}${digits.slice(0, pointIndex)}.${digits.slice(pointIndex)}`;
+}
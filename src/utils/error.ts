@@ -1,4 +1,4 @@
-import { logger } from "./logger";
+import type { FetchErrorCode, FetchIssue } from "../types";
 
 /**
  * Helper function to extract error details
@@ -23,19 +23,121 @@ export function getErrorDetails(error: unknown): { message: string; stack?: stri
   return { message: String(error) };
 }
 
-export function handleFetchError(error: unknown): void {
-  logger.error("Error fetching positions:", error);
+/** What the user can do about each error category */
+const FETCH_ERROR_HINTS: Partial<Record<FetchErrorCode, string>> = {
+  RPC_UNAVAILABLE: "Check the RPC URL; public endpoints disable some methods, try a dedicated RPC (--rpc)",
+  RATE_LIMITED: "Public RPC endpoints are rate limited, try a dedicated RPC (--rpc)",
+  ACCOUNT_NOT_FOUND: "Make sure the wallet has an account on this protocol",
+};
 
-  if (error instanceof Error) {
-    if (error.message.includes("410") || error.message.includes("Gone")) {
-      logger.error("→ RPC method disabled or rate limited");
-      logger.error("→ Try using a paid RPC service (QuickNode, Alchemy, etc.)");
-    } else if (error.message.includes("getUserAccountPublicKey")) {
-      logger.error("→ Make sure the user address has initialized a Drift account");
-    } else if (error.message.includes("connection") || error.message.includes("timeout")) {
-      logger.error("→ Network connection issue");
-    } else if (error.message.includes("-32401") || error.message.includes("Batch requests")) {
-      logger.error("→ RPC batch requests not allowed - using direct fetching instead");
+interface PositionFetchErrorOptions {
+  cause?: unknown;
+  /** Account address or market the error refers to */
+  subject?: string;
+}
+
+/**
+ * Base class of every error raised while fetching positions
+ * Branch on `instanceof` for thrown errors or on `code` once errors are reported as issues
+ */
+export class PositionFetchError extends Error {
+  readonly subject?: string;
+
+  constructor(
+    readonly code: FetchErrorCode,
+    message: string,
+    options: PositionFetchErrorOptions = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.subject = options.subject;
+  }
+
+  /** The same request may succeed when retried later */
+  get retryable(): boolean {
+    return this.code === "RPC_UNAVAILABLE" || this.code === "RATE_LIMITED";
+  }
+
+  /** Suggestion for the user, if there is one */
+  get hint(): string | undefined {
+    return FETCH_ERROR_HINTS[this.code];
+  }
+
+  /** Plain issue for partial results and JSON output */
+  toIssue(): FetchIssue {
+    return { code: this.code, message: this.message, subject: this.subject };
+  }
+}
+
+/** RPC endpoint unreachable, failing (5xx) or refusing the method (410) */
+export class RpcUnavailableError extends PositionFetchError {
+  constructor(message: string, options?: PositionFetchErrorOptions) {
+    super("RPC_UNAVAILABLE", message, options);
+  }
+}
+
+/** RPC endpoint answered with HTTP 429 */
+export class RateLimitedError extends PositionFetchError {
+  /** Delay requested by the Retry-After header */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, options?: PositionFetchErrorOptions) {
+    super("RATE_LIMITED", message, options);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** Required on-chain account does not exist */
+export class AccountNotFoundError extends PositionFetchError {
+  constructor(message: string, options?: PositionFetchErrorOptions) {
+    super("ACCOUNT_NOT_FOUND", message, options);
+  }
+}
+
+/** Account data could not be decoded */
+export class DecodeError extends PositionFetchError {
+  constructor(message: string, options?: PositionFetchErrorOptions) {
+    super("DECODE_ERROR", message, options);
+  }
+}
+
+/** No usable price for a market */
+export class PriceUnavailableError extends PositionFetchError {
+  constructor(message: string, options?: PositionFetchErrorOptions) {
+    super("PRICE_UNAVAILABLE", message, options);
+  }
+}
+
+/** Position in a market the adapter does not know */
+export class UnsupportedMarketError extends PositionFetchError {
+  constructor(message: string, options?: PositionFetchErrorOptions) {
+    super("UNSUPPORTED_MARKET", message, options);
+  }
+}
+
+/** Adapter returned a position that does not match the Position schema */
+export class InvalidPositionError extends PositionFetchError {
+  constructor(message: string, options?: PositionFetchErrorOptions) {
+    super("INVALID_POSITION", message, options);
+  }
+}
+
+/**
+ * Normalize anything thrown during a fetch into a PositionFetchError
+ * Typed errors pass through, including when wrapped as the cause of another error (e.g., by an SDK)
+ */
+export function toPositionFetchError(error: unknown): PositionFetchError {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof PositionFetchError) {
+      return current;
     }
   }
+  return new PositionFetchError("UNKNOWN", getErrorDetails(error).message, { cause: error });
+}
+
+/**
+ * Issue for a per-position or per-account failure of a partial result
+ */
+export function toFetchIssue(error: unknown): FetchIssue {
+  return toPositionFetchError(error).toIssue();
 }
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Connection } from "@solana/web3.js";
+import { RateLimitedError, RpcUnavailableError } from "./error";
+import { createRecordingFetch, createReplayFetch, fetchHttp, type HttpFetch, setHttpFetch } from "./http";
+
+const rpcRequest = (id: number) => ({
+  method: "POST",
+  body: JSON.stringify({ jsonrpc: "2.0", id, method: "getSlot", params: [{ commitment: "confirmed" }] }),
+});
+
+describe("record / replay fetch", () => {
+  let dir: string;
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  test("replays a recorded JSON-RPC response with the new request id", async () => {
+    dir = mkdtempSync(join(tmpdir(), "fixtures-"));
+    const upstream: HttpFetch = async (_input, init) => {
+      const { id } = JSON.parse(String(init?.body));
+      return Response.json({ jsonrpc: "2.0", id, result: 123 });
+    };
+
+    await createRecordingFetch(dir, upstream)("https://rpc.example.com/?api-key=secret", rpcRequest(1));
+    const [fileName] = readdirSync(dir);
+    expect(fileName).toStartWith("getSlot-");
+    expect(readFileSync(join(dir, fileName ?? ""), "utf8")).not.toContain("secret");
+
+    // Fixtures are keyed by method and params, not endpoint or id
+    const response = await createReplayFetch(dir)("https://other-rpc.example.com/", rpcRequest(42));
+    expect(await response.json()).toEqual({ jsonrpc: "2.0", id: 42, result: 123 });
+  });
+
+  test("fails on requests that were not recorded", async () => {
+    dir = mkdtempSync(join(tmpdir(), "fixtures-"));
+
+    await expect(createReplayFetch(dir)("https://quote.example.com/price?ids=SOL")).rejects.toThrow(
+      "No fixture for GET https://quote.example.com/price?ids=SOL",
+    );
+  });
+});
+
+describe("fetchHttp transport errors", () => {
+  let previous: HttpFetch | undefined;
+
+  afterEach(() => {
+    if (previous) setHttpFetch(previous);
+  });
+
+  test("HTTP 429 raises RateLimitedError with the Retry-After delay", async () => {
+    previous = setHttpFetch(async () => new Response("slow down", { status: 429, headers: { "retry-after": "3" } }));
+
+    const error = await fetchHttp("https://rpc.example.com/?api-key=secret").catch((caught) => caught);
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error).toMatchObject({ code: "RATE_LIMITED", retryAfterMs: 3000, retryable: true });
+    expect(error.message).not.toContain("secret");
+  });
+
+  test("unreachable endpoints reach web3.js callers as RpcUnavailableError", async () => {
+    previous = setHttpFetch(async () => {
+      throw new TypeError("fetch failed");
+    });
+    const connection = new Connection("https://rpc.example.com", { fetch: fetchHttp as never });
+
+    await expect(connection.getSlot()).rejects.toBeInstanceOf(RpcUnavailableError);
+  });
+});
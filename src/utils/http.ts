@@ -0,0 +1,218 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { PositionFetchError, RateLimitedError, RpcUnavailableError } from "./error";
+import { logger } from "./logger";
+
+/**
+ * Injectable HTTP layer shared by RPC connections and REST price APIs
+ *
+ * FIXTURE_MODE=record saves every response to FIXTURE_DIR (default: fixtures/rpc);
+ * FIXTURE_MODE=replay serves saved responses and fails on anything that was not recorded.
+ * JSON-RPC fixtures are keyed by method and params only, so the same fixtures replay against any RPC endpoint.
+ *
+ * Transport failures surface as typed errors: unreachable endpoints, 5xx and 410 (method disabled) raise
+ * RpcUnavailableError and 429 raises RateLimitedError, so callers never parse HTTP status out of messages.
+ */
+
+export type HttpFetch = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+export type FixtureMode = "record" | "replay";
+
+/** Saved request / response pair */
+export interface Fixture {
+  request: { method: string; url: string; body?: string };
+  response: { status: number; contentType?: string; body: string };
+}
+
+const DEFAULT_FIXTURE_DIR = "fixtures/rpc";
+
+/** Query parameters stripped from saved URLs because they carry credentials */
+const SECRET_QUERY_PARAMS = ["api-key", "apiKey", "token"];
+
+let activeFetch: HttpFetch = createFetchFromEnv();
+
+/** Responses with these statuses mean the endpoint cannot serve the request right now */
+const UNAVAILABLE_STATUSES = new Set([410, 500, 502, 503, 504]);
+
+/**
+ * Fetch through the active HTTP layer
+ * Resolved on every call, so connections created at import time also follow setHttpFetch()
+ * @throws RpcUnavailableError when the endpoint is unreachable or unavailable
+ * @throws RateLimitedError on HTTP 429
+ */
+export const fetchHttp: HttpFetch = async (input, init) => {
+  // Report the host only: RPC URLs may carry an API key
+  const host = new URL(input instanceof Request ? input.url : String(input)).host;
+
+  let response: Response;
+  try {
+    response = await activeFetch(input, init);
+  } catch (error) {
+    if (error instanceof PositionFetchError) throw error;
+    throw new RpcUnavailableError(`${host} unreachable: ${error instanceof Error ? error.message : String(error)}`, {
+      cause: error,
+    });
+  }
+
+  if (response.status === 429) {
+    throw new RateLimitedError(`${host} rate limited the request (HTTP 429)`, parseRetryAfter(response));
+  }
+  if (UNAVAILABLE_STATUSES.has(response.status)) {
+    throw new RpcUnavailableError(`${host} unavailable (HTTP ${response.status})`);
+  }
+  return response;
+};
+
+/**
+ * Replace the active HTTP layer (tests, custom transports)
+ * @returns The previous fetch, to restore it afterwards
+ */
+export function setHttpFetch(fetchFn: HttpFetch): HttpFetch {
+  const previous = activeFetch;
+  activeFetch = fetchFn;
+  return previous;
+}
+
+/**
+ * Fetch that performs real requests and saves every response as a fixture
+ */
+export function createRecordingFetch(dir: string, innerFetch: HttpFetch = fetch): HttpFetch {
+  mkdirSync(dir, { recursive: true });
+
+  return async (input, init) => {
+    const request = await describeRequest(input, init);
+    const response = await innerFetch(input, init);
+    const body = await response.text();
+
+    const fixture: Fixture = {
+      request,
+      response: { status: response.status, contentType: response.headers.get("content-type") ?? undefined, body },
+    };
+    const path = join(dir, getFixtureFileName(request));
+    writeFileSync(path, `${JSON.stringify(fixture, null, 2)}\n`);
+    logger.debug(`📼 Recorded ${path}`);
+
+    return new Response(body, { status: response.status, headers: response.headers });
+  };
+}
+
+/**
+ * Fetch that serves saved fixtures without touching the network
+ * JSON-RPC response ids are rewritten to match the incoming request
+ * @throws Error when no fixture matches the request
+ */
+export function createReplayFetch(dir: string): HttpFetch {
+  return async (input, init) => {
+    const request = await describeRequest(input, init);
+    const path = join(dir, getFixtureFileName(request));
+    if (!existsSync(path)) {
+      throw new Error(`No fixture for ${describeForLog(request)} (expected ${path})`);
+    }
+
+    const fixture = JSON.parse(readFileSync(path, "utf8")) as Fixture;
+    const body = restoreRpcIds(fixture.response.body, fixture.request.body, request.body);
+    return new Response(body, {
+      status: fixture.response.status,
+      headers: fixture.response.contentType ? { "content-type": fixture.response.contentType } : undefined,
+    });
+  };
+}
+
+/**
+ * Fixture file name: readable label plus a hash of the normalized request
+ */
+export function getFixtureFileName(request: Fixture["request"]): string {
+  const rpc = parseRpcBody(request.body);
+  const key = rpc
+    ? JSON.stringify(rpc.map(({ method, params }) => ({ method, params })))
+    : `${request.method} ${request.url} ${request.body ?? ""}`;
+  const label = rpc
+    ? rpc.map(({ method }) => method).join("+")
+    : new URL(request.url).hostname.replace(/[^a-z0-9]+/gi, "-");
+  const hash = createHash("sha256").update(key).digest("hex").slice(0, 16);
+  return `${label}-${hash}.json`;
+}
+
+/** Retry-After header in milliseconds (delta-seconds form only) */
+function parseRetryAfter(response: Response): number | undefined {
+  const seconds = Number(response.headers.get("retry-after") ?? Number.NaN);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
+function createFetchFromEnv(): HttpFetch {
+  const mode = process.env.FIXTURE_MODE as FixtureMode | undefined;
+  const dir = process.env.FIXTURE_DIR || DEFAULT_FIXTURE_DIR;
+
+  switch (mode) {
+    case "record":
+      logger.info(`📼 Recording HTTP fixtures to ${dir}`);
+      return createRecordingFetch(dir);
+    case "replay":
+      logger.info(`📼 Replaying HTTP fixtures from ${dir}`);
+      return createReplayFetch(dir);
+    default:
+      return fetch;
+  }
+}
+
+async function describeRequest(input: string | URL | Request, init?: RequestInit): Promise<Fixture["request"]> {
+  if (input instanceof Request) {
+    const body = await input.clone().text();
+    return { method: input.method, url: redactUrl(input.url), body: body || undefined };
+  }
+
+  return {
+    method: init?.method ?? "GET",
+    url: redactUrl(String(input)),
+    body: typeof init?.body === "string" ? init.body : undefined,
+  };
+}
+
+function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  for (const param of SECRET_QUERY_PARAMS) {
+    parsed.searchParams.delete(param);
+  }
+  return parsed.toString();
+}
+
+/** JSON-RPC calls in a request body (a single call or a batch), or undefined for other bodies */
+function parseRpcBody(body: string | undefined): { id?: unknown; method: string; params?: unknown }[] | undefined {
+  if (!body) return undefined;
+
+  try {
+    const parsed: unknown = JSON.parse(body);
+    const calls = Array.isArray(parsed) ? parsed : [parsed];
+    const isRpc = calls.every((call) => typeof call === "object" && call !== null && "jsonrpc" in call);
+    return isRpc ? calls : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Map JSON-RPC response ids from the recorded request to the replayed one
+ * Batch responses may come back in any order, so ids are matched by position in the recorded request
+ */
+function restoreRpcIds(
+  responseBody: string,
+  recordedBody: string | undefined,
+  requestBody: string | undefined,
+): string {
+  const recordedCalls = parseRpcBody(recordedBody);
+  const calls = parseRpcBody(requestBody);
+  if (!recordedCalls || !calls) return responseBody;
+
+  const toRequestId = (recordedId: unknown) => calls[recordedCalls.findIndex((call) => call.id === recordedId)]?.id;
+  const parsed: unknown = JSON.parse(responseBody);
+  if (Array.isArray(parsed)) {
+    return JSON.stringify(parsed.map((item: { id?: unknown }) => ({ ...item, id: toRequestId(item.id) })));
+  }
+  return JSON.stringify({ ...(parsed as object), id: calls[0]?.id });
+}
+
+function describeForLog(request: Fixture["request"]): string {
+  const rpc = parseRpcBody(request.body);
+  return rpc ? `RPC ${rpc.map(({ method }) => method).join(", ")}` : `${request.method} ${request.url}`;
+}
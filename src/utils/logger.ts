@@ -1,3 +1,5 @@
+import { formatWithOptions } from "node:util";
+
 /**
  * Define log levels
  * Can be controlled by environment variable LOG_LEVEL
@@ -23,6 +25,11 @@ const LOG_LEVEL_PRIORITY = {
   [LogLevel.DEBUG]: 4,
 } as const;
 
+// All levels write to stderr so that stdout carries only command output (JSON, CSV, ...)
+const writeToStderr = (...args: unknown[]) => {
+  process.stderr.write(`${formatWithOptions({ colors: Boolean(process.stderr.isTTY) }, ...args)}\n`);
+};
+
 const getTimestamp = () => {
   return new Date().toISOString();
 };
@@ -85,31 +92,31 @@ export const logger = {
     if (!shouldLog(LogLevel.LOG)) return;
     const header = formatHeader(LogLevel.LOG);
     const filteredArgs = filterArgs(...args);
-    console.log(header, ...filteredArgs);
+    writeToStderr(header, ...filteredArgs);
   },
   info: (...args: unknown[]) => {
     if (!shouldLog(LogLevel.INFO)) return;
     const header = formatHeader(LogLevel.INFO);
     const filteredArgs = filterArgs(...args);
-    console.info(header, ...filteredArgs);
+    writeToStderr(header, ...filteredArgs);
   },
   debug: (...args: unknown[]) => {
     if (!shouldLog(LogLevel.DEBUG)) return;
     const header = formatHeader(LogLevel.DEBUG);
     const filteredArgs = filterArgs(...args);
-    console.debug(header, ...filteredArgs);
+    writeToStderr(header, ...filteredArgs);
   },
   warn: (...args: unknown[]) => {
     if (!shouldLog(LogLevel.WARN)) return;
     const header = formatHeader(LogLevel.WARN);
     const filteredArgs = filterArgs(...args);
-    console.warn(header, ...filteredArgs);
+    writeToStderr(header, ...filteredArgs);
   },
   error: (...args: unknown[]) => {
     if (!shouldLog(LogLevel.ERROR)) return;
     const header = formatHeader(LogLevel.ERROR);
     const filteredArgs = filterArgs(...args);
-    console.error(header, ...filteredArgs);
+    writeToStderr(header, ...filteredArgs);
   },
   /**
    * Get the currently set log level
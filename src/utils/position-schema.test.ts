@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import type { Position } from "../types";
+import { Decimal } from "./decimal";
+import { filterValidPositions, validatePosition } from "./position-schema";
+
+const d = Decimal.parse;
+
+const POSITION: Position = {
+  schemaVersion: 2,
+  protocol: "jupiter",
+  owner: "86oHY5tUBn4gqHSQAZJSUX6MU7WJVpg8bn8MZ4jKEb63",
+  accountAddress: "5BUwFW4nRbftYTDMbgxykoFWqWHPzahFSNAaaaJtVKsq",
+  symbol: "SOL",
+  sizeUsd: d("5000"),
+  baseAmount: d("34.4"),
+  direction: "LONG",
+  pnl: d("120.5"),
+  entryPrice: d("145.23"),
+  markPrice: d("148.7"),
+  markPriceSource: "oracle",
+  leverage: 5,
+  liquidationPrice: d("118.2"),
+  liquidationDistancePercent: 20.5,
+  protocolMarketId: "7xS2gz2bTp3fwCC7knJvUWTEU9Tycczu6VhJYKgi1wdz",
+  openedAt: "2025-03-01T12:00:00.000Z",
+  updatedAt: "2025-03-02T08:30:00.000Z",
+  fees: { borrowUsd: d("1.25"), closeUsd: d("3") },
+  collateral: {
+    symbol: "SOL",
+    tokenAmount: d("6.72"),
+    usdValue: d("1000"),
+    lockedAmount: d("34.428"),
+    protocolCollateralId: "7xS2gz2bTp3fwCC7knJvUWTEU9Tycczu6VhJYKgi1wdz",
+  },
+};
+
+/** Copy of a position without the given fields (missing, not undefined) */
+function omit(position: Position, ...keys: (keyof Position)[]): Partial<Position> {
+  return Object.fromEntries(Object.entries(position).filter(([key]) => !keys.includes(key as keyof Position)));
+}
+
+describe("validatePosition", () => {
+  test("accepts a complete position and one without optional fields", () => {
+    const required = omit(
+      POSITION,
+      "markPriceSource",
+      "liquidationPrice",
+      "liquidationDistancePercent",
+      "openedAt",
+      "updatedAt",
+      "fees",
+      "collateral",
+    );
+
+    expect(validatePosition(POSITION)).toEqual([]);
+    expect(validatePosition(required)).toEqual([]);
+    expect(validatePosition({ ...POSITION, subAccountId: undefined })).toEqual([]);
+  });
+
+  test("reports missing fields, wrong types and unknown fields by path", () => {
+    const problems = validatePosition({
+      ...omit(POSITION, "accountAddress"),
+      protocolMarketId: 0,
+      pnl: Number.NaN,
+      openedAt: "yesterday",
+      collateral: { ...POSITION.collateral, usdValue: d("-1") },
+      marketIndex: 0,
+    });
+
+    expect(problems).toEqual([
+      "position.marketIndex: unknown field",
+      "position.accountAddress: required",
+      "position.pnl: expected Decimal, got NaN",
+      "position.protocolMarketId: expected non-empty string, got 0",
+      'position.openedAt: expected ISO 8601 timestamp, got "yesterday"',
+      "position.collateral.usdValue: expected Decimal >= 0, got -1",
+    ]);
+  });
+
+  test("rejects other schema versions", () => {
+    expect(validatePosition({ ...POSITION, schemaVersion: 1 })).toEqual(["position.schemaVersion: expected 2, got 1"]);
+  });
+});
+
+describe("filterValidPositions", () => {
+  test("drops invalid positions and reports them as INVALID_POSITION issues", () => {
+    const invalid = { ...POSITION, accountAddress: "Bad1", direction: "UP" };
+    const { positions, errors } = filterValidPositions([POSITION, invalid]);
+
+    expect(positions).toEqual([POSITION]);
+    expect(errors).toEqual([
+      {
+        code: "INVALID_POSITION",
+        message: 'Invalid position: position.direction: expected "LONG" or "SHORT", got "UP"',
+        subject: "Bad1",
+      },
+    ]);
+  });
+});
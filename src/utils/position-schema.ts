@@ -0,0 +1,175 @@
+import type { AccountMargin, FetchIssue, Position, PositionCollateral, PositionFees, PositionFunding } from "../types";
+import { Decimal } from "./decimal";
+import { InvalidPositionError } from "./error";
+import { logger } from "./logger";
+
+/**
+ * Runtime check of the normalized Position shape
+ * Adapters build positions from decoded on-chain data, so types alone do not guarantee finite numbers,
+ * Decimal amounts, valid timestamps or the absence of extra fields. Every rule table is keyed by the interface it checks,
+ * so adding a field to an interface without a rule fails the type check.
+ */
+
+/** Current Position schema version */
+export const POSITION_SCHEMA_VERSION: Position["schemaVersion"] = 2;
+
+/** Check of one field */
+interface FieldRule {
+  /** Expected value, used in error messages */
+  expected: string;
+  optional?: boolean;
+  check?: (value: unknown) => boolean;
+  /** Rules of a nested object */
+  fields?: Rules;
+}
+
+type Rules = Record<string, FieldRule>;
+
+/** One rule per field of T, optional fields included */
+type RulesOf<T> = { [K in keyof Required<T>]: FieldRule };
+
+const isString = (value: unknown) => typeof value === "string" && value.length > 0;
+const isNumber = (value: unknown) => typeof value === "number" && Number.isFinite(value);
+const isNonNegative = (value: unknown) => isNumber(value) && (value as number) >= 0;
+const isInteger = (value: unknown) => Number.isSafeInteger(value) && (value as number) >= 0;
+const isDecimal = (value: unknown) => value instanceof Decimal;
+const isNonNegativeDecimal = (value: unknown) => value instanceof Decimal && !value.isNegative();
+const isTimestamp = (value: unknown) => typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+const STRING: FieldRule = { expected: "non-empty string", check: isString };
+const NUMBER: FieldRule = { expected: "finite number", check: isNumber };
+const NON_NEGATIVE: FieldRule = { expected: "finite number >= 0", check: isNonNegative };
+const DECIMAL: FieldRule = { expected: "Decimal", check: isDecimal };
+const NON_NEGATIVE_DECIMAL: FieldRule = { expected: "Decimal >= 0", check: isNonNegativeDecimal };
+const optional = (rule: FieldRule): FieldRule => ({ ...rule, optional: true });
+
+const ACCOUNT_MARGIN_RULES: RulesOf<AccountMargin> = {
+  health: NON_NEGATIVE,
+  netAssetValue: DECIMAL,
+  totalCollateral: DECIMAL,
+  maintenanceMarginRequirement: NON_NEGATIVE_DECIMAL,
+  initialMarginRequirement: NON_NEGATIVE_DECIMAL,
+  freeCollateral: DECIMAL,
+  leverage: NON_NEGATIVE,
+};
+
+const FUNDING_RULES: RulesOf<PositionFunding> = {
+  unsettledPnl: DECIMAL,
+  settledPnlWithFees: DECIMAL,
+  lastHourlyRatePercent: NUMBER,
+  predictedHourlyRatePercent: optional(NUMBER),
+};
+
+const COLLATERAL_RULES: RulesOf<PositionCollateral> = {
+  symbol: STRING,
+  tokenAmount: optional(NON_NEGATIVE_DECIMAL),
+  usdValue: NON_NEGATIVE_DECIMAL,
+  lockedAmount: NON_NEGATIVE_DECIMAL,
+  protocolCollateralId: STRING,
+};
+
+const FEES_RULES: RulesOf<PositionFees> = {
+  borrowUsd: NON_NEGATIVE_DECIMAL,
+  closeUsd: NON_NEGATIVE_DECIMAL,
+};
+
+const POSITION_RULES: RulesOf<Position> = {
+  schemaVersion: { expected: `${POSITION_SCHEMA_VERSION}`, check: (value) => value === POSITION_SCHEMA_VERSION },
+  protocol: STRING,
+  owner: STRING,
+  accountAddress: STRING,
+  symbol: STRING,
+  sizeUsd: NON_NEGATIVE_DECIMAL,
+  baseAmount: NON_NEGATIVE_DECIMAL,
+  direction: { expected: '"LONG" or "SHORT"', check: (value) => value === "LONG" || value === "SHORT" },
+  pnl: DECIMAL,
+  entryPrice: NON_NEGATIVE_DECIMAL,
+  markPrice: NON_NEGATIVE_DECIMAL,
+  markPriceSource: optional({
+    expected: '"oracle" or "quote"',
+    check: (value) => value === "oracle" || value === "quote",
+  }),
+  leverage: NON_NEGATIVE,
+  liquidationPrice: optional(NON_NEGATIVE_DECIMAL),
+  liquidationDistancePercent: optional(NUMBER),
+  protocolMarketId: STRING,
+  subAccountId: optional({ expected: "integer >= 0", check: isInteger }),
+  openedAt: optional({ expected: "ISO 8601 timestamp", check: isTimestamp }),
+  updatedAt: optional({ expected: "ISO 8601 timestamp", check: isTimestamp }),
+  fees: optional({ expected: "object", fields: FEES_RULES }),
+  accountMargin: optional({ expected: "object", fields: ACCOUNT_MARGIN_RULES }),
+  funding: optional({ expected: "object", fields: FUNDING_RULES }),
+  collateral: optional({ expected: "object", fields: COLLATERAL_RULES }),
+};
+
+/**
+ * Check a value against the Position schema
+ * Optional fields may be missing or undefined; fields the schema does not know are rejected
+ * @returns Problems found, one per field (empty when the value is a valid Position)
+ */
+export function validatePosition(value: unknown): string[] {
+  return checkObject(value, POSITION_RULES, "position");
+}
+
+/**
+ * Keep the positions that match the Position schema
+ * @returns Valid positions, plus an INVALID_POSITION issue per rejected position
+ */
+export function filterValidPositions(positions: readonly unknown[]): { positions: Position[]; errors: FetchIssue[] } {
+  const valid: Position[] = [];
+  const errors: FetchIssue[] = [];
+
+  for (const position of positions) {
+    const problems = validatePosition(position);
+    if (problems.length === 0) {
+      valid.push(position as Position);
+      continue;
+    }
+
+    const subject = describePosition(position);
+    logger.warn(`⚠️ Dropping invalid position ${subject}: ${problems.join("; ")}`);
+    errors.push(new InvalidPositionError(`Invalid position: ${problems.join("; ")}`, { subject }).toIssue());
+  }
+
+  return { positions: valid, errors };
+}
+
+function checkObject(value: unknown, rules: Rules, path: string): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [`${path}: expected object`];
+  }
+
+  const record = value as Record<string, unknown>;
+  const unknownFields = Object.keys(record)
+    .filter((key) => !Object.hasOwn(rules, key))
+    .map((key) => `${path}.${key}: unknown field`);
+
+  return [
+    ...unknownFields,
+    ...Object.entries(rules).flatMap(([key, rule]) => checkField(record[key], rule, `${path}.${key}`)),
+  ];
+}
+
+function checkField(value: unknown, rule: FieldRule, path: string): string[] {
+  if (value === undefined) {
+    return rule.optional ? [] : [`${path}: required`];
+  }
+  if (rule.fields) {
+    return checkObject(value, rule.fields, path);
+  }
+  if (rule.check?.(value) === false) {
+    // JSON.stringify would print NaN and Infinity as null, and a Decimal as a float
+    const actual = typeof value === "number" || value instanceof Decimal ? String(value) : JSON.stringify(value);
+    return [`${path}: expected ${rule.expected}, got ${actual}`];
+  }
+  return [];
+}
+
+/** Account address, or protocol and symbol, of a value that may not be a valid position */
+function describePosition(value: unknown): string {
+  const record = (typeof value === "object" && value !== null ? value : {}) as Record<string, unknown>;
+  if (isString(record.accountAddress)) {
+    return String(record.accountAddress);
+  }
+  return `${String(record.protocol ?? "unknown")}:${String(record.symbol ?? "unknown")}`;
+}
@@ -0,0 +1,68 @@
+import type { PortfolioTotals, Position, PositionFetchResult, SpotBalance } from "../types";
+import { Decimal } from "./decimal";
+
+/**
+ * Distance from the mark price to the liquidation price, as a percentage of the mark price
+ * Positive while the position is safe, negative once the mark price has crossed the liquidation price
+ */
+export function calculateLiquidationDistancePercent(
+  markPrice: Decimal,
+  liquidationPrice: Decimal,
+  direction: Position["direction"],
+): number {
+  if (!markPrice.isPositive()) {
+    return 0;
+  }
+
+  const priceDelta = direction === "LONG" ? markPrice.sub(liquidationPrice) : liquidationPrice.sub(markPrice);
+  return priceDelta.div(markPrice).toNumber() * 100;
+}
+
+/**
+ * Sum notional and unrealized PnL over positions, net value over spot balances and equity over their accounts
+ */
+export function calculatePortfolioTotals(positions: Position[], spotBalances: SpotBalance[] = []): PortfolioTotals {
+  return {
+    positionCount: positions.length,
+    notionalUsd: Decimal.sum(positions.map((pos) => pos.sizeUsd)),
+    pnl: Decimal.sum(positions.map((pos) => pos.pnl)),
+    spotBalanceCount: spotBalances.length,
+    netSpotUsd: Decimal.sum(spotBalances.map((balance) => getSignedSpotAmounts(balance).usdValue)),
+    accountEquity: calculateAccountEquity([...positions, ...spotBalances]),
+  };
+}
+
+/**
+ * Token amount and USD value of a spot balance, negative for borrows
+ */
+export function getSignedSpotAmounts(balance: SpotBalance): { tokenAmount: Decimal; usdValue: Decimal } {
+  return balance.side === "DEPOSIT"
+    ? { tokenAmount: balance.tokenAmount, usdValue: balance.usdValue }
+    : { tokenAmount: balance.tokenAmount.neg(), usdValue: balance.usdValue.neg() };
+}
+
+/**
+ * Net asset value summed over distinct cross-margin accounts
+ * Every position and balance of an account carries the same margin figures, so each account is counted once
+ */
+function calculateAccountEquity(items: Pick<Position | SpotBalance, "accountAddress" | "accountMargin">[]): Decimal {
+  const netAssetValues = new Map<string, Decimal>();
+  for (const { accountAddress, accountMargin } of items) {
+    if (accountMargin) {
+      netAssetValues.set(accountAddress, accountMargin.netAssetValue);
+    }
+  }
+  return Decimal.sum([...netAssetValues.values()]);
+}
+
+/**
+ * Concatenate partial results (e.g., of several sub-accounts) into one
+ */
+export function mergeFetchResults(results: PositionFetchResult[]): PositionFetchResult {
+  return {
+    positions: results.flatMap((result) => result.positions),
+    spotBalances: results.flatMap((result) => result.spotBalances ?? []),
+    warnings: results.flatMap((result) => result.warnings),
+    errors: results.flatMap((result) => result.errors),
+  };
+}
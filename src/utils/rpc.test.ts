@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { DecodeError, RateLimitedError } from "./error";
+import { type HttpFetch, setHttpFetch } from "./http";
+import { RpcEndpointPool } from "./rpc";
+
+const PRIMARY = "https://primary.example.com/?api-key=secret";
+const FALLBACK = "https://fallback.example.com/";
+
+/** Fast settings so backoff does not slow the tests down */
+const FAST = { baseDelayMs: 1, maxDelayMs: 2, cooldownBaseMs: 60_000 };
+
+const ok = () => Response.json({ jsonrpc: "2.0", id: 1, result: 1 });
+
+describe("RpcEndpointPool", () => {
+  let previous: HttpFetch | undefined;
+  let calls: string[];
+
+  /** Route requests to per-host handlers and record which hosts were called */
+  function stubHosts(handlers: Record<string, () => Response | Promise<Response>>): void {
+    calls = [];
+    previous = setHttpFetch(async (input) => {
+      const { host } = new URL(String(input));
+      calls.push(host);
+      const handler = handlers[host];
+      if (!handler) throw new TypeError("fetch failed");
+      return handler();
+    });
+  }
+
+  afterEach(() => {
+    if (previous) setHttpFetch(previous);
+  });
+
+  test("fails over to the next endpoint and keeps using it while the first cools down", async () => {
+    stubHosts({ "primary.example.com": () => new Response("", { status: 503 }), "fallback.example.com": ok });
+    const pool = new RpcEndpointPool([PRIMARY, FALLBACK], FAST);
+
+    await pool.fetch("ignored", { method: "POST", body: "{}" });
+    await pool.fetch("ignored", { method: "POST", body: "{}" });
+
+    expect(calls).toEqual(["primary.example.com", "fallback.example.com", "fallback.example.com"]);
+    const [primary, fallback] = pool.getHealth();
+    expect(primary).toMatchObject({ healthy: false, failures: 1, lastErrorCode: "RPC_UNAVAILABLE" });
+    expect(primary?.host).toBe("primary.example.com");
+    expect(fallback).toMatchObject({ healthy: true, requests: 2, failures: 0 });
+  });
+
+  test("retries a single endpoint with backoff until it recovers", async () => {
+    let attempts = 0;
+    stubHosts({ "primary.example.com": () => (++attempts < 3 ? new Response("", { status: 429 }) : ok()) });
+    const pool = new RpcEndpointPool([PRIMARY], FAST);
+
+    const response = await pool.fetch("ignored", { method: "POST", body: "{}" });
+
+    expect(await response.json()).toMatchObject({ result: 1 });
+    expect(attempts).toBe(3);
+    expect(pool.getHealth()[0]).toMatchObject({ healthy: true, consecutiveFailures: 0, failures: 2 });
+  });
+
+  test("gives up with the last typed error after maxAttempts", async () => {
+    stubHosts({ "primary.example.com": () => new Response("", { status: 429 }) });
+    const pool = new RpcEndpointPool([PRIMARY], { ...FAST, maxAttempts: 2 });
+
+    await expect(pool.fetch("ignored")).rejects.toBeInstanceOf(RateLimitedError);
+    expect(calls).toHaveLength(2);
+  });
+
+  test("does not retry errors that are not retryable", async () => {
+    stubHosts({
+      "primary.example.com": () => {
+        throw new DecodeError("bad payload");
+      },
+    });
+    const pool = new RpcEndpointPool([PRIMARY, FALLBACK], FAST);
+
+    await expect(pool.fetch("ignored")).rejects.toBeInstanceOf(DecodeError);
+    expect(calls).toEqual(["primary.example.com"]);
+    expect(pool.getHealth()[0]?.healthy).toBe(true);
+  });
+});
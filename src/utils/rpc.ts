@@ -0,0 +1,225 @@
+import type { FetchErrorCode } from "../types";
+import { type PositionFetchError, RateLimitedError, toPositionFetchError } from "./error";
+import { fetchHttp, type HttpFetch } from "./http";
+import { logger } from "./logger";
+
+/**
+ * Resilient JSON-RPC transport over an ordered list of endpoints
+ * Requests go to the first healthy endpoint. Retryable failures (timeouts, 429, 5xx, unreachable) put the endpoint
+ * in a cooldown and the request fails over to the next one; once every endpoint has failed, retries back off
+ * exponentially with jitter. Non-retryable errors are returned to the caller immediately.
+ */
+
+/** Retry and health tracking settings */
+export interface RpcPoolOptions {
+  /** Attempts per request across all endpoints */
+  maxAttempts: number;
+  /** First backoff delay; doubles with every attempt that cannot fail over */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Abort a request that has not answered after this long */
+  requestTimeoutMs: number;
+  /** First cooldown of a failing endpoint; doubles with consecutive failures */
+  cooldownBaseMs: number;
+  cooldownMaxMs: number;
+}
+
+/** Health of one endpoint; URLs are reduced to the host because they may carry an API key */
+export interface RpcEndpointHealth {
+  host: string;
+  healthy: boolean;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastLatencyMs?: number;
+  lastErrorCode?: FetchErrorCode;
+  lastError?: string;
+  /** End of the current cooldown (ISO timestamp) */
+  cooldownUntil?: string;
+}
+
+const RPC_POOL_DEFAULTS: RpcPoolOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 250,
+  maxDelayMs: 8_000,
+  requestTimeoutMs: 30_000,
+  cooldownBaseMs: 5_000,
+  cooldownMaxMs: 60_000,
+};
+
+/** Mutable state of one endpoint */
+interface RpcEndpoint {
+  url: string;
+  host: string;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastLatencyMs?: number;
+  lastError?: PositionFetchError;
+  cooldownUntil: number;
+}
+
+/** Pools keyed by their endpoint list, so every connection to the same endpoints shares health */
+const pools = new Map<string, RpcEndpointPool>();
+
+/**
+ * Get the shared pool for an ordered endpoint list
+ * @throws Error if the list is empty
+ */
+export function getRpcPool(urls: string[]): RpcEndpointPool {
+  const key = urls.join(",");
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = new RpcEndpointPool(urls);
+    pools.set(key, pool);
+  }
+  return pool;
+}
+
+/**
+ * Ordered endpoint list with retries, failover and per-endpoint health
+ */
+export class RpcEndpointPool {
+  private readonly endpoints: RpcEndpoint[];
+  private readonly options: RpcPoolOptions;
+
+  /**
+   * @param urls Endpoints in order of preference
+   * @throws Error if the list is empty
+   */
+  constructor(urls: string[], options: Partial<RpcPoolOptions> = {}) {
+    if (urls.length === 0) {
+      throw new Error("RPC endpoint list is empty");
+    }
+    this.options = { ...RPC_POOL_DEFAULTS, ...options };
+    this.endpoints = urls.map((url) => ({
+      url,
+      host: new URL(url).host,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+    }));
+  }
+
+  /** First endpoint; web3.js derives the websocket endpoint from it */
+  get primaryUrl(): string {
+    return this.endpoints[0]?.url ?? "";
+  }
+
+  /**
+   * Send a request to the best endpoint, retrying and failing over on retryable errors
+   * The URL of the request is ignored: connections built on the pool only provide the body
+   * @throws PositionFetchError of the last attempt
+   */
+  readonly fetch: HttpFetch = async (_input, init) => {
+    let lastError: PositionFetchError | undefined;
+    let backoffAttempt = 0;
+
+    for (let attempt = 0; attempt < this.options.maxAttempts; attempt++) {
+      const endpoint = this.pickEndpoint();
+
+      // Fail over right away; back off only once every endpoint is cooling down
+      if (lastError && endpoint.cooldownUntil > Date.now()) {
+        await sleep(this.getBackoffDelay(backoffAttempt++, lastError));
+      }
+
+      try {
+        return await this.send(endpoint, init);
+      } catch (error) {
+        lastError = toPositionFetchError(error);
+        // Aborted by the caller, not by the request timeout
+        if (!lastError.retryable || init?.signal?.aborted) throw lastError;
+
+        logger.warn(
+          `🔁 RPC ${endpoint.host} failed [${lastError.code}] (attempt ${attempt + 1}/${this.options.maxAttempts}): ` +
+            lastError.message,
+        );
+      }
+    }
+
+    throw lastError;
+  };
+
+  /**
+   * Health of every endpoint, in order of preference
+   */
+  getHealth(now: number = Date.now()): RpcEndpointHealth[] {
+    return this.endpoints.map((endpoint) => ({
+      host: endpoint.host,
+      healthy: endpoint.cooldownUntil <= now,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      lastLatencyMs: endpoint.lastLatencyMs,
+      lastErrorCode: endpoint.lastError?.code,
+      lastError: endpoint.lastError?.message,
+      cooldownUntil: endpoint.cooldownUntil > now ? new Date(endpoint.cooldownUntil).toISOString() : undefined,
+    }));
+  }
+
+  private async send(endpoint: RpcEndpoint, init?: RequestInit): Promise<Response> {
+    const startedAt = Date.now();
+    const timeout = AbortSignal.timeout(this.options.requestTimeoutMs);
+    endpoint.requests += 1;
+
+    try {
+      const response = await fetchHttp(endpoint.url, {
+        ...init,
+        signal: init?.signal ? AbortSignal.any([init.signal, timeout]) : timeout,
+      });
+      endpoint.lastLatencyMs = Date.now() - startedAt;
+      if (endpoint.consecutiveFailures > 0) {
+        logger.info(`✅ RPC ${endpoint.host} recovered`);
+      }
+      endpoint.consecutiveFailures = 0;
+      endpoint.cooldownUntil = 0;
+      return response;
+    } catch (error) {
+      const fetchError = toPositionFetchError(error);
+      // Errors answered by the endpoint itself (e.g., a JSON-RPC error) say nothing about its health
+      if (fetchError.retryable) {
+        this.recordFailure(endpoint, fetchError);
+      }
+      throw fetchError;
+    }
+  }
+
+  private recordFailure(endpoint: RpcEndpoint, error: PositionFetchError): void {
+    endpoint.failures += 1;
+    endpoint.consecutiveFailures += 1;
+    endpoint.lastError = error;
+
+    const cooldownMs = Math.min(
+      this.options.cooldownBaseMs * 2 ** (endpoint.consecutiveFailures - 1),
+      this.options.cooldownMaxMs,
+    );
+    const retryAfterMs = error instanceof RateLimitedError ? (error.retryAfterMs ?? 0) : 0;
+    endpoint.cooldownUntil = Date.now() + Math.max(cooldownMs, retryAfterMs);
+  }
+
+  /**
+   * First endpoint outside its cooldown, or the one whose cooldown ends first when all are cooling down
+   */
+  private pickEndpoint(): RpcEndpoint {
+    const now = Date.now();
+    const available = this.endpoints.find((endpoint) => endpoint.cooldownUntil <= now);
+    if (available) return available;
+
+    return this.endpoints.reduce((best, endpoint) => (endpoint.cooldownUntil < best.cooldownUntil ? endpoint : best));
+  }
+
+  /**
+   * Exponential backoff with equal jitter, never shorter than a Retry-After delay
+   */
+  private getBackoffDelay(attempt: number, error: PositionFetchError): number {
+    const delayMs = Math.min(this.options.baseDelayMs * 2 ** attempt, this.options.maxDelayMs);
+    const jitteredMs = delayMs / 2 + Math.random() * (delayMs / 2);
+    const retryAfterMs = error instanceof RateLimitedError ? (error.retryAfterMs ?? 0) : 0;
+    return Math.max(jitteredMs, Math.min(retryAfterMs, this.options.maxDelayMs));
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,13 @@
+import { PublicKey } from "@solana/web3.js";
+
+/**
+ * Check that a string is a canonical base58-encoded 32-byte public key
+ * `new PublicKey()` alone accepts short inputs by zero-padding them, so the round trip is compared
+ */
+export function isValidPublicKey(address: string): boolean {
+  try {
+    return new PublicKey(address).toBase58() === address;
+  } catch {
+    return false;
+  }
+}